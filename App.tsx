@@ -1,11 +1,37 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Upload, Loader2, Play, Wand2, Layers, Image as ImageIcon, Sliders, Maximize2, X, RefreshCcw, Palette, Key, Eye, EyeOff, Download, FileJson, ImageIcon as ImageIconLucide, Move3d, RotateCw, Box, Zap, Code, BrainCircuit } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Upload, Loader2, AlertTriangle, Play, Wand2, Layers, Image as ImageIcon, Sliders, Maximize2, X, RefreshCcw, Palette, Key, Eye, EyeOff, Download, FileJson, ImageIcon as ImageIconLucide, Move3d, RotateCw, Box, Zap, Code, BrainCircuit, Triangle, Aperture, Scissors, Crop, Dices, Sun, Sparkles, Glasses } from 'lucide-react';
 import PointCloudViewer from './components/PointCloudViewer';
 import VoxelViewer from './components/VoxelViewer';
+import MeshViewer from './components/MeshViewer';
 import HandController, { HandControllerHandle } from './components/HandController';
-import { generateDepthMap, generateVoxelScene } from './services/geminiService';
-import { loadImage, resizeImage, generatePointCloudFromImages, applyColorMap } from './utils/imageProcessing';
-import { ProcessedPointCloud, HandGestures, ViewMode } from './types';
+import { getDepthProvider, getSceneProvider, listDepthProviders, listSceneProviders, resolveProviderSettings, DEFAULT_DEPTH_PROVIDER, DEFAULT_SCENE_PROVIDER, ProviderSettings, DepthMapResult } from './services/providers';
+import { AuthError, MalformedResponseError, describeProviderError } from './services/errors';
+import { withResultCache } from './services/resultCache';
+import { loadImage, resizeImage, applyColorMap } from './utils/imageProcessing';
+import { decodeDepthSource, depthBufferToDataUrl, alignDepthToImage, encodePFM } from './utils/depthMaps';
+import { validateDepthMap } from './utils/depthValidation';
+import { DEFAULT_DEPTH_RESPONSE, computeDepthHistogram } from './utils/depthResponse';
+import DepthCurveEditor from './components/DepthCurveEditor';
+import FusionPanel from './components/FusionPanel';
+import SequenceTimeline from './components/SequenceTimeline';
+import CachePanel from './components/CachePanel';
+import { extractSwatchPalette, rgbToHex } from './utils/palette';
+import { buildVoxelGrid } from './utils/voxelGrid';
+import { buildSceneGrid, buildSceneLayers, serializeVoxelScene, validateVoxelScene } from './utils/voxelScene';
+import { exportVoxelGridToVOX } from './utils/voxExporter';
+import { buildPointCloudInWorker, mergeCloudsInWorker, isAbortError } from './utils/cloudBuilderClient';
+import { IDENTITY_TRANSFORM, scaleTransform } from './utils/registration';
+import { extractVideoFrames, smoothDepthSequence } from './utils/videoFrames';
+import { DEFAULT_STEREO_OPTIONS, splitStereoImage } from './utils/stereo';
+import { estimateStereoDepthInWorker } from './utils/stereoClient';
+import { exportPointCloudToPLY, PlyFormat } from './utils/plyExporter';
+import { downloadBlob } from './utils/download';
+import { buildGridMesh } from './utils/meshBuilder';
+import { exportGridMeshToGLB, exportGridMeshToOBJ } from './utils/meshExporter';
+import { DEFAULT_CAMERA, getHorizontalFov, fovToFocalLength35mm } from './utils/camera';
+import { readExifCameraInfo } from './utils/exif';
+import { randomSeed } from './utils/sampling';
+import { ProcessedPointCloud, HandGestures, ViewMode, CameraModel, EdgeFilter, DepthClip, SamplingOptions, SamplingStrategy, DepthRefinement, DepthRefinementMethod, DepthEncoding, DepthBuffer, DepthResponse, DepthInterpretation, VoxelFillMode, PaletteOptions, PaletteMode, CloudBuildOptions, DepthSequence, SequenceFrame, StereoOptions, StereoMatcher, SceneFormat, VoxelScene, FusedView, FusionState } from './types';
 
 // Add type definition for the AI Studio window object by augmenting the expected interface
 declare global {
@@ -15,6 +41,16 @@ declare global {
   }
 }
 
+// Point clouds above this resolution are organised into a streamed LOD octree
+const LOD_RESOLUTION_THRESHOLD = 1024;
+// "Full" resolution: photos are not downscaled by size, only by the worker's pixel cap (8 MP)
+const FULL_RESOLUTION = 16384;
+// Video sequences: frame cap and per-frame cloud resolution (every frame's cloud is kept for playback)
+const MAX_SEQUENCE_FRAMES = 48;
+const SEQUENCE_RESOLUTION = 512;
+// Longest side stereo pairs are matched at (cost grows with width x height x disparity range)
+const STEREO_RESOLUTION = 640;
+
 function App() {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [depthImage, setDepthImage] = useState<string | null>(null);
@@ -24,6 +60,15 @@ function App() {
   
   // Generative Scene State
   const [voxelSceneHtml, setVoxelSceneHtml] = useState<string | null>(null);
+  // 'voxels': the model returns a voxel list rendered by VoxelViewer instead of code
+  const [sceneFormat, setSceneFormat] = useState<SceneFormat>('code');
+  const [voxelScene, setVoxelScene] = useState<VoxelScene | null>(null);
+
+  // Multi-view fusion; fusionBaseCloud is the reference cloud without the fused views
+  const [fusion, setFusion] = useState<FusionState | null>(null);
+  const [fusionBaseCloud, setFusionBaseCloud] = useState<ProcessedPointCloud | null>(null);
+  const fusionRef = useRef<FusionState | null>(null);
+  const fusionCloudsRef = useRef<ProcessedPointCloud[]>([]);
   const [isGeneratingScene, setIsGeneratingScene] = useState(false);
   const [sceneThought, setSceneThought] = useState<string>("");
 
@@ -38,24 +83,72 @@ function App() {
   // Visual settings
   const [pointSize, setPointSize] = useState<number>(0.05); // Default smaller
   const [samplingDensity, setSamplingDensity] = useState<number>(0.5); // Default to 50%
+  // Longest side of the point cloud grid; above 1024 the cloud is split into an LOD octree
+  const [pointResolution, setPointResolution] = useState<number>(1024);
+  const [pointBudget, setPointBudget] = useState<number>(2000000); // Max points drawn per frame (LOD)
+  const [sampling, setSampling] = useState<SamplingOptions>({ strategy: 'stratified', seed: 1 });
+  const [pointLighting, setPointLighting] = useState<boolean>(false);
+  const [hemisphereLight, setHemisphereLight] = useState<boolean>(true);
+  const [additiveBlending, setAdditiveBlending] = useState<boolean>(true);
   const [voxelResolution, setVoxelResolution] = useState<number>(64); // Reduced to 64 for safety
+  const [voxelFill, setVoxelFill] = useState<VoxelFillMode>('gaps');
+  const [voxelPalette, setVoxelPalette] = useState<PaletteOptions>({ mode: 'retro', size: 16, dither: false });
+  const [meshResolution, setMeshResolution] = useState<number>(384);
+  const [meshWireframe, setMeshWireframe] = useState<boolean>(false);
 
   const [showBackground, setShowBackground] = useState<boolean>(false);
   const [depthExaggeration, setDepthExaggeration] = useState<number>(1.0);
   const [autoRotate, setAutoRotate] = useState<boolean>(false);
+
+  // Camera Model (unprojection)
+  const [cameraModel, setCameraModel] = useState<CameraModel>(DEFAULT_CAMERA);
+  const [exifFocalLength, setExifFocalLength] = useState<number | null>(null); // 35mm equivalent
+
+  // Silhouette cleanup (flying pixels between foreground and background)
+  const [edgeFilter, setEdgeFilter] = useState<EdgeFilter>({ mode: 'off', threshold: 0.08 });
+
+  // Depth clipping (subject isolation)
+  const [depthClip, setDepthClip] = useState<DepthClip>({ near: 1.0, far: 0.0, removeBackground: false });
   
   // Depth Visualization Settings
   const [depthContrast, setDepthContrast] = useState<number>(1.0);
   const [depthIntensity, setDepthIntensity] = useState<number>(1.0);
   const [colorizeDepth, setColorizeDepth] = useState<boolean>(false);
 
+  // Depth Refinement (applied at build time, guided by the color image)
+  const [depthRefinement, setDepthRefinement] = useState<DepthRefinement>({ method: 'none', strength: 0.8, radius: 4, median: false });
+  // How 8-bit depth images are read (16-bit PNG / PFM are detected automatically)
+  const [depthEncoding, setDepthEncoding] = useState<DepthEncoding>('gray8');
+  // Gray value -> depth mapping (interpretation + response curve), applied at build time
+  const [depthResponse, setDepthResponse] = useState<DepthResponse>(DEFAULT_DEPTH_RESPONSE);
+  const [depthBuffer, setDepthBuffer] = useState<DepthBuffer | null>(null); // Decoded depth, for preview + histogram
+
+  // Video input: extracted frames with per-frame depth, played back as a cloud sequence
+  const [videoFps, setVideoFps] = useState<number>(4); // Extraction rate for the next video
+  const [temporalSmoothing, setTemporalSmoothing] = useState<number>(0.6);
+  const [videoSequence, setVideoSequence] = useState<DepthSequence | null>(null);
+  const [sequenceDepths, setSequenceDepths] = useState<string[]>([]); // Smoothed depth per frame (PFM)
+  const [sequenceClouds, setSequenceClouds] = useState<ProcessedPointCloud[]>([]); // Points mode playback
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+
+  // Offline stereo depth (no network): pair, side-by-side or MPO
+  const [stereoOptions, setStereoOptions] = useState<StereoOptions>(DEFAULT_STEREO_OPTIONS);
+  const [stereoSwap, setStereoSwap] = useState<boolean>(false); // Cross-eyed pairs / reversed files
+
   // Reset Trigger
   const [resetTrigger, setResetTrigger] = useState<number>(0);
   
   // API Key State
   const [isApiKeyReady, setIsApiKeyReady] = useState<boolean>(false);
-  const [manualApiKey, setManualApiKey] = useState<string>("");
+  // Depth / scene backends; settings are kept per provider id (Gemini's API key, local options...)
+  const [depthProviderId, setDepthProviderId] = useState<string>(DEFAULT_DEPTH_PROVIDER);
+  const [sceneProviderId, setSceneProviderId] = useState<string>(DEFAULT_SCENE_PROVIDER);
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
+  const [depthSource, setDepthSource] = useState<string>(""); // Where the current depth map came from
+  const [depthWarnings, setDepthWarnings] = useState<string[]>([]); // Corrections applied to a generated depth map
   const [showApiKey, setShowApiKey] = useState<boolean>(false);
+  const [useResultCache, setUseResultCache] = useState<boolean>(true); // Reuse depth / scenes for images seen before
+  const [cacheRevision, setCacheRevision] = useState<number>(0); // Refreshes the cache panel
 
   const gestureRef = useRef<HandGestures>({
     rotation: { x: 0, y: 0 },
@@ -66,7 +159,22 @@ function App() {
   
   const handControllerRef = useRef<HandControllerHandle>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const depthFileInputRef = useRef<HTMLInputElement>(null); // User-supplied depth map
+  const swatchInputRef = useRef<HTMLInputElement>(null); // Custom voxel palette image
+  const stereoInputRef = useRef<HTMLInputElement>(null); // Stereo pair / side-by-side / MPO
+
+  const depthProvider = getDepthProvider(depthProviderId);
+  const depthSettings = resolveProviderSettings(depthProvider, providerSettings[depthProvider.id]);
+  const sceneProvider = getSceneProvider(sceneProviderId);
+  const sceneSettings = resolveProviderSettings(sceneProvider, providerSettings[sceneProvider.id]);
   const iframeRef = useRef<HTMLIFrameElement>(null); // Reference to Gen Scene iframe
+  const buildAbortRef = useRef<AbortController | null>(null); // In-flight cloud build
+  // In-flight depth / scene requests. The controller doubles as the request token: a handler
+  // only writes state while its controller is still the current one and not aborted.
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const sceneAbortRef = useRef<AbortController | null>(null);
+  // Depth / cloud requests for fusion views; aborted by cancelGeneration and when the fusion panel unmounts
+  const fusionAbortRef = useRef<AbortController | null>(null);
 
   // Check for API Key on mount
   useEffect(() => {
@@ -115,24 +223,258 @@ function App() {
      };
   };
 
+  // Aborts every request and build in flight (Cancel button, or new input replacing the old)
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    sceneAbortRef.current?.abort();
+    sceneAbortRef.current = null;
+    buildAbortRef.current?.abort();
+    buildAbortRef.current = null;
+    cancelFusionRequests();
+    setIsGenerating(false);
+    setIsGeneratingScene(false);
+    setSceneThought("");
+    setIsProcessing3D(false);
+    setProgress(0);
+  };
+
+  // Shared by every fusion view request until the next cancel
+  const fusionSignal = () => {
+    if (!fusionAbortRef.current) fusionAbortRef.current = new AbortController();
+    return fusionAbortRef.current.signal;
+  };
+
+  const cancelFusionRequests = () => {
+    fusionAbortRef.current?.abort();
+    fusionAbortRef.current = null;
+  };
+
+  const startGeneration = () => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    return controller;
+  };
+
+  // Fusion: views merged into the reference cloud. fusionRef mirrors the state for builds that
+  // run from stale closures; fusionCloudsRef holds the view clouds built with the current settings.
+  const setFusionState = (next: FusionState | null, viewClouds: ProcessedPointCloud[] = []) => {
+    fusionRef.current = next;
+    fusionCloudsRef.current = viewClouds;
+    setFusion(next);
+    if (!next) setFusionBaseCloud(null);
+  };
+
+  const clearFusion = () => setFusionState(null);
+
+  const clearSequence = () => {
+    setVideoSequence(null);
+    setSequenceDepths([]);
+    setSequenceClouds([]);
+    setFrameIndex(0);
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (file && file.type.startsWith('video/')) {
+      handleVideoUpload(file);
+      return;
+    }
     if (file) {
       const reader = new FileReader();
       reader.onload = (event) => {
         if (event.target?.result) {
-          setOriginalImage(event.target.result as string);
+          const src = event.target.result as string;
+          cancelGeneration();
+          setOriginalImage(src);
           setDepthImage(null);
+          setDepthWarnings([]);
           setDisplayDepthImage(null);
           setPointCloudData(null);
           setVoxelSceneHtml(null); // Reset scene
-          setStatusMessage("Image loaded.");
+          setVoxelScene(null);
+          clearSequence();
+          clearFusion();
+
+          // Phone photos usually carry the 35mm-equivalent focal length in EXIF
+          const exif = readExifCameraInfo(src);
+          setExifFocalLength(exif?.focalLength35mm ?? null);
+          setStatusMessage(exif?.focalLength35mm ? `Image loaded (EXIF ${exif.focalLength35mm}mm).` : "Image loaded.");
         }
       };
       reader.readAsDataURL(file);
     }
   };
 
+  // Videos become a sequence of stills; depth is generated per frame by processGeneration
+  const handleVideoUpload = async (file: File) => {
+    const url = URL.createObjectURL(file);
+    cancelGeneration();
+    const controller = startGeneration();
+    setIsProcessing3D(true);
+    setProgress(0);
+    setStatusMessage("Extracting frames...");
+    try {
+      const frames = await extractVideoFrames(
+        url,
+        { fps: videoFps, maxFrames: MAX_SEQUENCE_FRAMES },
+        (fraction) => setProgress(fraction * 100),
+        controller.signal
+      );
+      clearSequence();
+      clearFusion();
+      setVideoSequence({ fps: videoFps, frames });
+      setOriginalImage(frames[0].image);
+      setDepthImage(null);
+      setDisplayDepthImage(null);
+      setPointCloudData(null);
+      setVoxelSceneHtml(null);
+      setVoxelScene(null);
+      setExifFocalLength(null);
+      setStatusMessage(`Video loaded (${frames.length} frames at ${videoFps} fps).`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Video Error", error);
+      setStatusMessage(error instanceof Error ? `Could not read video: ${error.message}.` : "Could not read video.");
+    } finally {
+      URL.revokeObjectURL(url);
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsProcessing3D(false);
+      }
+    }
+  };
+
+  // Use an existing depth map (portrait mode, LiDAR, other estimators) instead of generating one
+  const handleDepthUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file || !originalImage) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      if (!event.target?.result) return;
+      // The uploaded map replaces whatever is being generated
+      cancelGeneration();
+      try {
+        const colorImg = await loadImage(originalImage);
+        const aligned = await alignDepthToImage(
+          event.target.result as string,
+          colorImg.naturalWidth,
+          colorImg.naturalHeight,
+          depthEncoding
+        );
+
+        // Fused views were aligned to the old depth
+        clearFusion();
+        setDepthImage(aligned.src);
+        setDepthSource("Uploaded depth map");
+        setDepthWarnings([]);
+        setStatusMessage(aligned.cropped
+          ? `Depth map cropped to image aspect (${aligned.width}x${aligned.height}).`
+          : `Depth map loaded (${aligned.width}x${aligned.height}).`);
+
+        if (viewMode !== 'scene') {
+          await build3DModel(originalImage, aligned.src);
+        }
+      } catch (error) {
+        console.error("Depth Import Error", error);
+        setStatusMessage(error instanceof Error ? `Invalid depth map: ${error.message}.` : "Invalid depth map.");
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  // Local depth source: the left view becomes the image and the matched depth is used like
+  // a generated one. Two files are a left/right pair (by name); one file is MPO or side-by-side.
+  const handleStereoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).sort((a, b) => a.name.localeCompare(b.name));
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+
+    cancelGeneration();
+    const controller = startGeneration();
+    const { signal } = controller;
+    setIsGenerating(true);
+    setProgress(0);
+    setStatusMessage("Matching stereo pair...");
+    try {
+      let left: string, right: string;
+      if (files.length >= 2) {
+        const [first, second] = await Promise.all(files.slice(0, 2).map(readAsDataUrl));
+        [left, right] = stereoSwap ? [second, first] : [first, second];
+      } else {
+        ({ left, right } = await splitStereoImage(await readAsDataUrl(files[0]), stereoSwap));
+      }
+
+      const result = await estimateStereoDepthInWorker(
+        { leftSrc: left, rightSrc: right, maxSize: STEREO_RESOLUTION, options: stereoOptions },
+        { onProgress: (fraction) => setProgress(fraction * 50), signal }
+      );
+      const depthSrc = encodePFM(result.depth);
+
+      clearSequence();
+      clearFusion();
+      setOriginalImage(left);
+      setDepthImage(depthSrc);
+      setDepthSource(`Stereo ${stereoOptions.matcher.toUpperCase()}`);
+      setDepthWarnings([]);
+      setVoxelSceneHtml(null);
+      setVoxelScene(null);
+      const exif = readExifCameraInfo(left);
+      setExifFocalLength(exif?.focalLength35mm ?? null);
+
+      if (viewMode !== 'scene') await build3DModel(left, depthSrc, 50, signal);
+      if (signal.aborted) return;
+      setProgress(100);
+      const rectified = result.rectification ? `, rectified ${result.rectification.maxShift.toFixed(1)}px` : '';
+      setStatusMessage(`Generated with stereo ${stereoOptions.matcher.toUpperCase()} (${Math.round(result.validFraction * 100)}% matched${rectified})`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Stereo Error", error);
+      setStatusMessage(error instanceof Error ? `Stereo failed: ${error.message}.` : "Stereo failed.");
+      setProgress(0);
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  // Custom voxel palette: every distinct colour of the swatch image (reduced if there are too many)
+  const handleSwatchUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      if (!event.target?.result) return;
+      try {
+        const img = await loadImage(event.target.result as string);
+        const canvas = resizeImage(img, 256);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const customColors = extractSwatchPalette(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+        setVoxelPalette({ ...voxelPalette, mode: 'custom', customColors });
+        setStatusMessage(`Swatch loaded (${customColors.length} colors).`);
+      } catch (error) {
+        console.error("Swatch Import Error", error);
+        setStatusMessage("Could not read swatch image.");
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleImportClick = () => {
       fileInputRef.current?.click();
   };
@@ -148,21 +490,82 @@ function App() {
               const data = JSON.parse(content);
 
               if (data.originalImage && data.depthImage) {
+                  cancelGeneration();
                   setStatusMessage("Importing cloud...");
                   setIsProcessing3D(true);
                   
                   setOriginalImage(data.originalImage);
                   setDepthImage(data.depthImage);
+                  setDepthSource("Imported project");
+                  setDepthWarnings([]);
 
                   // Restore View Mode if present
                   if (data.settings && data.settings.viewMode) {
                       setViewMode(data.settings.viewMode);
                   }
-                  
-                  // Rebuild point cloud immediately
-                  await build3DModel(data.originalImage, data.depthImage);
+                  if (data.settings && data.settings.camera) {
+                      setCameraModel({ ...DEFAULT_CAMERA, ...data.settings.camera });
+                  }
+                  if (data.settings && data.settings.edgeFilter) {
+                      setEdgeFilter(data.settings.edgeFilter);
+                  }
+                  if (data.settings && data.settings.depthClip) {
+                      setDepthClip(data.settings.depthClip);
+                  }
+                  if (data.settings && data.settings.sampling) {
+                      // Density + strategy + seed reproduce the exported cloud exactly
+                      if (typeof data.settings.samplingDensity === 'number') setSamplingDensity(data.settings.samplingDensity);
+                      setSampling(data.settings.sampling);
+                  }
+                  if (data.settings && data.settings.depthRefinement) {
+                      setDepthRefinement(data.settings.depthRefinement);
+                  }
+                  if (data.settings && data.settings.depthEncoding) {
+                      setDepthEncoding(data.settings.depthEncoding);
+                  }
+                  if (data.settings && data.settings.pointResolution) {
+                      setPointResolution(data.settings.pointResolution);
+                  }
+                  if (data.settings && data.settings.pointBudget) {
+                      setPointBudget(data.settings.pointBudget);
+                  }
+                  if (data.settings && data.settings.voxelPalette) {
+                      setVoxelPalette(data.settings.voxelPalette);
+                  }
+                  if (data.settings && data.settings.voxelFill) {
+                      setVoxelFill(data.settings.voxelFill);
+                  }
+                  if (data.settings && data.settings.depthResponse) {
+                      setDepthResponse({ ...DEFAULT_DEPTH_RESPONSE, ...data.settings.depthResponse });
+                  }
+                  if (data.settings && typeof data.settings.temporalSmoothing === 'number') {
+                      setTemporalSmoothing(data.settings.temporalSmoothing);
+                  }
+
+                  clearSequence();
+                  // Fused views are rebuilt and merged again by build3DModel
+                  setFusionState(data.fusion && Array.isArray(data.fusion.views) && data.fusion.views.length > 0 ? data.fusion : null);
+                  if (data.sequence && data.sequence.frames && data.sequence.frames.length > 0) {
+                      // Video project: rebuild every frame from the stored raw depth maps
+                      setVideoSequence(data.sequence);
+                      setOriginalImage(data.sequence.frames[0].image);
+                      await buildSequence(data.sequence);
+                  } else {
+                      // Rebuild point cloud immediately
+                      await build3DModel(data.originalImage, data.depthImage);
+                  }
                   
                   setStatusMessage("Cloud imported successfully.");
+              } else if (data.palette && data.voxels) {
+                  // Exported voxel scene
+                  const { valid, reason, scene } = validateVoxelScene(data);
+                  if (!valid || !scene) throw new Error(reason);
+                  cancelGeneration();
+                  setVoxelSceneHtml(null);
+                  setVoxelScene(scene);
+                  setSceneFormat('voxels');
+                  setViewMode('scene');
+                  setStatusMessage(`Voxel scene imported (${scene.voxels.length.toLocaleString()} voxels).`);
               } else {
                   throw new Error("Invalid file format");
               }
@@ -177,16 +580,13 @@ function App() {
 
   const handleExport = () => {
       if (viewMode === 'scene') {
+          if (voxelScene) {
+              downloadBlob(new Blob([serializeVoxelScene(voxelScene)], { type: 'application/json' }), `voxel-scene-${Date.now()}.json`);
+              return;
+          }
           if (!voxelSceneHtml) return;
           const blob = new Blob([voxelSceneHtml], { type: 'text/html' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `voxel-scene-${Date.now()}.html`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+          downloadBlob(blob, `voxel-scene-${Date.now()}.html`);
           return;
       }
 
@@ -196,26 +596,87 @@ function App() {
           originalImage,
           depthImage,
           createdAt: new Date().toISOString(),
-          settings: { pointSize, samplingDensity, viewMode }
+          settings: { pointSize, samplingDensity, sampling, viewMode, camera: cameraModel, edgeFilter, depthClip, depthRefinement, depthEncoding, depthResponse, voxelFill, voxelPalette, pointResolution, pointBudget, temporalSmoothing },
+          ...(videoSequence ? { sequence: videoSequence } : {}),
+          ...(fusionRef.current ? { fusion: fusionRef.current } : {})
       };
 
       const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `depth-cloud-${Date.now()}.artefacto`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `depth-cloud-${Date.now()}.artefacto`);
+  };
+
+  const handleExportPLY = (format: PlyFormat) => {
+      if (!pointCloudData) return;
+      const blob = exportPointCloudToPLY(pointCloudData, { format, depthExaggeration });
+      const suffix = format === 'ascii' ? 'ascii' : 'binary';
+      downloadBlob(blob, `depth-cloud-${Date.now()}-${suffix}.ply`);
+  };
+
+  // MagicaVoxel export of the same grid the viewer renders (fill mode + depth exaggeration)
+  const handleExportVOX = () => {
+      if (viewMode === 'scene' && voxelScene) {
+          downloadBlob(exportVoxelGridToVOX(buildSceneGrid(voxelScene)), `voxel-scene-${Date.now()}.vox`);
+          return;
+      }
+      if (!pointCloudData || viewMode !== 'voxels') return;
+      const grid = buildVoxelGrid(pointCloudData, voxelFill, depthExaggeration);
+      downloadBlob(exportVoxelGridToVOX(grid), `depth-voxels-${Date.now()}.vox`);
+  };
+
+  const handleExportMesh = async (format: 'glb' | 'obj') => {
+      if (!pointCloudData || !originalImage || viewMode !== 'mesh') return;
+      const mesh = buildGridMesh(pointCloudData);
+      const baseName = `depth-mesh-${Date.now()}`;
+
+      try {
+          if (format === 'glb') {
+              const textureImg = await loadImage(originalImage);
+              const blob = await exportGridMeshToGLB(mesh, textureImg, depthExaggeration);
+              downloadBlob(blob, `${baseName}.glb`);
+              return;
+          }
+
+          // OBJ + MTL + texture image as three sibling files
+          const textureBlob = await (await fetch(originalImage)).blob();
+          const textureExt = textureBlob.type === 'image/png' ? 'png' : 'jpg';
+          const textureFileName = `${baseName}.${textureExt}`;
+          const { obj, mtl } = exportGridMeshToOBJ(mesh, baseName, textureFileName, depthExaggeration);
+
+          downloadBlob(new Blob([obj], { type: 'text/plain' }), `${baseName}.obj`);
+          downloadBlob(new Blob([mtl], { type: 'text/plain' }), `${baseName}.mtl`);
+          downloadBlob(textureBlob, textureFileName);
+      } catch (error) {
+          console.error("Mesh Export Error", error);
+          setStatusMessage("Error exporting mesh.");
+      }
   };
 
+  // Decode through the depth pipeline so 16-bit PNG and PFM maps preview correctly
+  useEffect(() => {
+     if (!depthImage) {
+         setDepthBuffer(null);
+         return;
+     }
+     let cancelled = false;
+     decodeDepthSource(depthImage, depthEncoding)
+         .then(buffer => { if (!cancelled) setDepthBuffer(buffer); })
+         .catch(error => console.error("Depth Decode Error", error));
+     return () => { cancelled = true; };
+  }, [depthImage, depthEncoding]);
+
+  const depthHistogram = useMemo(
+     () => depthBuffer ? computeDepthHistogram(depthBuffer.data, depthResponse.interpretation) : [],
+     [depthBuffer, depthResponse.interpretation]
+  );
+
+  const sceneLayers = useMemo(() => voxelScene ? buildSceneLayers(voxelScene) : null, [voxelScene]);
+
   // Update Display Depth Image when settings change
   useEffect(() => {
-     if (!depthImage) return;
+     if (!depthBuffer) return;
      
      const updateDisplay = async () => {
-         const img = await loadImage(depthImage);
+         const img = await loadImage(depthBufferToDataUrl(depthBuffer));
          const canvas = resizeImage(img, 512); 
          
          const tempImg = new Image();
@@ -226,128 +687,416 @@ function App() {
          };
      };
      updateDisplay();
-  }, [depthImage, depthContrast, depthIntensity, colorizeDepth]);
+  }, [depthBuffer, depthContrast, depthIntensity, colorizeDepth]);
+
+  // Provider calls through the IndexedDB result cache, unless it is switched off
+  const generateDepthCached = (imageSrc: string, signal?: AbortSignal) => {
+    const produce = () => depthProvider.generateDepth(imageSrc, depthSettings, signal);
+    return useResultCache
+      ? withResultCache('depth', imageSrc, depthProvider, depthSettings, produce)
+      : produce().then(result => ({ result, cached: false }));
+  };
+
+  const generateSceneCached = (imageSrc: string, onThought: (thought: string) => void, signal?: AbortSignal) => {
+    const produce = () => sceneProvider.generateScene(imageSrc, sceneSettings, onThought, signal);
+    return useResultCache
+      ? withResultCache('scene', imageSrc, sceneProvider, sceneSettings, produce)
+      : produce().then(result => ({ result, cached: false }));
+  };
+
+  // Voxel-list scenes are cached under their own prompt version
+  const generateStructuredSceneCached = (imageSrc: string, onThought: (thought: string) => void, signal?: AbortSignal) => {
+    const structured = sceneProvider.structured;
+    if (!structured) return Promise.reject(new Error(`${sceneProvider.name} can't generate voxel scenes`));
+    const produce = () => structured.generate(imageSrc, sceneSettings, onThought, signal);
+    return useResultCache
+      ? withResultCache('voxels', imageSrc, { ...sceneProvider, promptVersion: structured.promptVersion }, sceneSettings, produce)
+      : produce().then(result => ({ result, cached: false }));
+  };
+
+  // Checks a generated depth map against its image and fits it (letterbox, aspect, contrast).
+  // Providers that validate their own output pass the result along; the others are checked here,
+  // and end up here with unusable maps too since they have no fallback.
+  const alignGeneratedDepth = async (imageSrc: string, depthResult: DepthMapResult) => {
+    const checked = depthResult.validation
+      || await validateDepthMap(`data:image/png;base64,${depthResult.imageBase64}`, imageSrc);
+    if (!checked.usable) throw new MalformedResponseError(checked.reason);
+    return checked;
+  };
 
   const processGeneration = async () => {
     if (!originalImage) return;
 
-    const hasKey = manualApiKey || process.env.API_KEY || (window.aistudio && await window.aistudio.hasSelectedApiKey());
-    if (!hasKey) {
+    if (!(await depthProvider.isConfigured(depthSettings))) {
         setStatusMessage("Missing API Key");
         setShowApiKey(true);
         if (window.aistudio) setIsApiKeyReady(false);
         return;
     }
 
+    const controller = startGeneration();
+    const { signal } = controller;
     setProgress(5);
-    const progressInterval = setInterval(() => {
-        setProgress(prev => {
-            if (prev >= 85) return prev;
-            const increment = prev < 50 ? 5 : prev < 70 ? 2 : 0.5;
-            return prev + Math.random() * increment;
-        });
-    }, 400);
 
     try {
       setIsGenerating(true);
-      const hasManualKey = !!manualApiKey && manualApiKey.trim().length > 0;
-      const depthModelName = hasManualKey ? 'Gemini 3 Pro Image' : 'Gemini 2.0 Flash';
+      const depthModelName = depthProvider.describeModel(depthSettings);
       setStatusMessage(`Generating depth with ${depthModelName}...`); 
+
+      if (videoSequence) {
+        // One depth request per frame; frames that already have depth (an earlier, interrupted run) are kept
+        const frames: SequenceFrame[] = [...videoSequence.frames];
+        const warnings = new Set<string>();
+        for (let i = 0; i < frames.length; i++) {
+          if (frames[i].depth) continue;
+          setStatusMessage(`Generating depth for frame ${i + 1}/${frames.length} with ${depthModelName}...`);
+          const { result: frameResult } = await generateDepthCached(frames[i].image, signal);
+          if (signal.aborted) return;
+          if (!frameResult || !frameResult.imageBase64) throw new Error(`Failed to generate depth for frame ${i + 1}`);
+          const aligned = await alignGeneratedDepth(frames[i].image, frameResult);
+          if (signal.aborted) return;
+          aligned.warnings.forEach(warning => warnings.add(warning));
+          frames[i] = { ...frames[i], depth: aligned.src };
+          setVideoSequence({ ...videoSequence, frames: [...frames] });
+          setProgress(5 + 75 * (i + 1) / frames.length);
+        }
+
+        const sequence = { ...videoSequence, frames };
+        setDepthSource(depthModelName);
+        setDepthWarnings([...warnings]);
+        await buildSequence(sequence, 80, signal);
+        if (signal.aborted) return;
+        setProgress(100);
+        setStatusMessage(`Generated ${frames.length} frames`);
+        return;
+      }
       
-      const base64Data = originalImage.split(',')[1];
-      const depthResult = await generateDepthMap(base64Data, manualApiKey);
+      const { result: depthResult, cached } = await generateDepthCached(originalImage, signal);
+      if (signal.aborted) return;
+      const cachedNote = cached ? ' (cached)' : '';
       
       if (!depthResult || !depthResult.imageBase64) throw new Error("Failed to generate depth map");
+      const aligned = await alignGeneratedDepth(originalImage, depthResult);
+      if (signal.aborted) return;
 
-      setProgress(90);
-      setStatusMessage(`Depth ready (${depthResult.modelUsed}). ${viewMode === 'points' ? "Building cloud..." : "Voxelizing..."}`);
+      setProgress(50);
+      setStatusMessage(`Depth ready (${depthResult.modelUsed}${cachedNote}). ${viewMode === 'points' ? "Building cloud..." : viewMode === 'mesh' ? "Meshing..." : "Voxelizing..."}`);
 
-      const fullDepthSrc = `data:image/png;base64,${depthResult.imageBase64}`;
-      setDepthImage(fullDepthSrc);
+      clearFusion();
+      setDepthImage(aligned.src);
+      setDepthSource(depthResult.modelUsed);
+      setDepthWarnings(aligned.warnings);
       
-      await build3DModel(originalImage, fullDepthSrc);
+      await build3DModel(originalImage, aligned.src, 50, signal);
+      if (signal.aborted) return;
       
       setProgress(100);
-      setStatusMessage(`Generated with ${depthResult.modelUsed}`);
+      const corrected = aligned.warnings.length ? ` · ${aligned.warnings.length} correction${aligned.warnings.length > 1 ? 's' : ''}` : '';
+      setStatusMessage(`Generated with ${depthResult.modelUsed}${cachedNote}${corrected}`);
       
     } catch (error: any) {
+      if (isAbortError(error) || signal.aborted) return;
       console.error(error);
-      const errMsg = error.toString();
-      
-      if (errMsg.includes("403") || errMsg.includes("PERMISSION_DENIED")) {
-         setStatusMessage("Access Denied. Check API Key.");
-         if (window.aistudio) setIsApiKeyReady(false);
-      } else {
-         setStatusMessage("Error: " + (error instanceof Error ? error.message : "Unknown error"));
-      }
+      setStatusMessage(describeProviderError(error));
+      if (error instanceof AuthError && window.aistudio) setIsApiKeyReady(false);
       setProgress(0); 
     } finally {
-      clearInterval(progressInterval);
-      setIsGenerating(false);
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
+      }
+      setCacheRevision(revision => revision + 1);
     }
   };
 
   const processSceneGeneration = async () => {
      if (!originalImage) return;
 
-     const hasKey = manualApiKey || process.env.API_KEY || (window.aistudio && await window.aistudio.hasSelectedApiKey());
-     if (!hasKey) {
+     if (!(await sceneProvider.isConfigured(sceneSettings))) {
          setStatusMessage("Missing API Key");
          setShowApiKey(true);
          if (window.aistudio) setIsApiKeyReady(false);
          return;
      }
      
+     sceneAbortRef.current?.abort();
+     const controller = new AbortController();
+     sceneAbortRef.current = controller;
+     const { signal } = controller;
+
      setIsGeneratingScene(true);
-     const hasManualKey = !!manualApiKey && manualApiKey.trim().length > 0;
-     const sceneModelName = hasManualKey ? 'Gemini 3 Pro' : 'Gemini 2.5 Flash';
+     const sceneModelName = sceneProvider.describeModel(sceneSettings);
      setStatusMessage(`Generating scene with ${sceneModelName}...`); 
      setSceneThought(`Using ${sceneModelName} to create voxel art...`);
      setVoxelSceneHtml(null);
+     setVoxelScene(null);
      
+     const onThought = (thought: string) => {
+         if (signal.aborted) return;
+         const cleanThought = thought.replace(/\*\*/g, '').replace(/###/g, '').trim();
+         setSceneThought(cleanThought);
+     };
+
      try {
-         const { html, modelUsed } = await generateVoxelScene(originalImage, manualApiKey, (thought) => {
-             const cleanThought = thought.replace(/\*\*/g, '').replace(/###/g, '').trim();
-             setSceneThought(cleanThought);
-         });
-         setVoxelSceneHtml(html);
-         setStatusMessage(`Scene generated with ${modelUsed}`);
+         if (sceneFormat === 'voxels') {
+             const { result: { scene, modelUsed }, cached } = await generateStructuredSceneCached(originalImage, onThought, signal);
+             if (signal.aborted) return;
+             setVoxelScene(scene);
+             setStatusMessage(`Scene generated with ${modelUsed}${cached ? ' (cached)' : ''} · ${scene.voxels.length.toLocaleString()} voxels`);
+         } else {
+             const { result: { html, modelUsed }, cached } = await generateSceneCached(originalImage, onThought, signal);
+             if (signal.aborted) return;
+             setVoxelSceneHtml(html);
+             setStatusMessage(`Scene generated with ${modelUsed}${cached ? ' (cached)' : ''}`);
+         }
      } catch (error: any) {
+        if (isAbortError(error) || signal.aborted) return;
         console.error(error);
-        setStatusMessage("Scene generation failed.");
-        const errMsg = error.toString();
-        if (errMsg.includes("403") || errMsg.includes("PERMISSION_DENIED")) {
-             if (window.aistudio) setIsApiKeyReady(false);
-        }
+        setStatusMessage(`Scene generation failed. ${describeProviderError(error)}`);
+        if (error instanceof AuthError && window.aistudio) setIsApiKeyReady(false);
      } finally {
-         setIsGeneratingScene(false);
-         setSceneThought("");
+         if (sceneAbortRef.current === controller) {
+             sceneAbortRef.current = null;
+             setIsGeneratingScene(false);
+             setSceneThought("");
+         }
+         setCacheRevision(revision => revision + 1);
      }
   };
 
-  // Generalized Builder that respects View Mode
-  const build3DModel = async (colorSrc: string, depthSrc: string) => {
-    setIsProcessing3D(true);
-    try {
-      const [colorImg, depthImg] = await Promise.all([
-        loadImage(colorSrc),
-        loadImage(depthSrc)
-      ]);
+  // Build-time depth options shared by every cloud build
+  const cloudBuildOptions = (): CloudBuildOptions => ({
+    sampling,
+    refinement: depthRefinement,
+    response: depthResponse,
+    camera: cameraModel,
+    edgeFilter,
+    clip: depthClip
+  });
 
-      const targetRes = viewMode === 'voxels' ? voxelResolution : 1024;
-      const density = viewMode === 'voxels' ? 1.0 : samplingDensity; 
+  // A newer build cancels the one still in flight; the caller's signal (a generation) cancels it too
+  const startBuild = (signal?: AbortSignal) => {
+    buildAbortRef.current?.abort();
+    const controller = new AbortController();
+    buildAbortRef.current = controller;
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    return controller;
+  };
 
-      const colorCanvas = resizeImage(colorImg, targetRes);
-      const depthCanvas = resizeImage(depthImg, targetRes);
+  // Generalized Builder that respects View Mode.
+  // Runs in a worker; a newer build cancels the one still in flight.
+  // progressStart lets a caller reserve the first part of the progress bar (e.g. for Gemini).
+  const build3DModel = async (colorSrc: string, depthSrc: string, progressStart: number = 0, signal?: AbortSignal) => {
+    const controller = startBuild(signal);
 
-      const cloud = generatePointCloudFromImages(colorCanvas, depthCanvas, density, viewMode === 'voxels');
+    setIsProcessing3D(true);
+    setProgress(progressStart);
+    try {
+      const targetRes = viewMode === 'voxels' ? voxelResolution : viewMode === 'mesh' ? meshResolution : pointResolution;
+      // Voxels and meshes need the full pixel grid
+      const density = viewMode === 'points' ? samplingDensity : 1.0; 
+
+      const cloud = await buildPointCloudInWorker({
+        colorSrc,
+        depthSrc,
+        depthEncoding,
+        targetResolution: targetRes,
+        samplingFactor: density,
+        isVoxelMode: viewMode === 'voxels',
+        options: {
+          ...cloudBuildOptions(),
+          palette: voxelPalette,
+          normals: viewMode === 'points',
+          octree: viewMode === 'points' && pointResolution > LOD_RESOLUTION_THRESHOLD
+        }
+      }, {
+        signal: controller.signal,
+        onProgress: (fraction) => setProgress(progressStart + (100 - progressStart) * fraction)
+      });
+      if (controller.signal.aborted) return;
+
+      // Fused views follow the reference through every rebuild (points mode only)
+      const fusionState = fusionRef.current;
+      if (viewMode === 'points' && fusionState) {
+        setStatusMessage(`Fusing ${fusionState.views.length + 1} views...`);
+        const fused = await fuseViews(cloud, fusionState, [], controller.signal);
+        if (controller.signal.aborted) return;
+        fusionCloudsRef.current = fused.viewClouds;
+        setFusionBaseCloud(cloud);
+        setPointCloudData(fused.cloud);
+        setStatusMessage(`Ready (${(fused.cloud.count / 1000).toFixed(0)}k points, ${fusionState.views.length + 1} views fused).`);
+        return;
+      }
+
+      setFusionBaseCloud(null);
       setPointCloudData(cloud);
-      setStatusMessage(`Ready (${(cloud.count / 1000).toFixed(0)}k ${viewMode === 'voxels' ? 'voxels' : 'points'}).`);
+      setStatusMessage(`Ready (${(cloud.count / 1000).toFixed(0)}k ${viewMode === 'voxels' ? 'voxels' : viewMode === 'mesh' ? 'vertices' : 'points'}).`);
     } catch (error) {
+       if (isAbortError(error)) return;
        console.error("3D Build Error", error);
        setStatusMessage("Error building model.");
     } finally {
-      setIsProcessing3D(false);
+      // Only the latest build owns the loading state
+      if (buildAbortRef.current === controller) {
+        buildAbortRef.current = null;
+        setIsProcessing3D(false);
+      }
+    }
+  };
+
+  // Video sequence: smooths the raw per-frame depth maps over time, then builds a cloud per
+  // frame for playback (points mode) or just the shown frame (voxels / mesh)
+  const buildSequence = async (sequence: DepthSequence, progressStart: number = 0, signal?: AbortSignal) => {
+    if (sequence.frames.some(frame => !frame.depth)) return;
+    const index = Math.min(frameIndex, sequence.frames.length - 1);
+
+    let depths: string[];
+    try {
+      const raw = await Promise.all(sequence.frames.map(frame => decodeDepthSource(frame.depth!, depthEncoding)));
+      depths = smoothDepthSequence(raw, temporalSmoothing).map(encodePFM);
+    } catch (error) {
+      console.error("Sequence Depth Error", error);
+      setStatusMessage("Error decoding sequence depth.");
+      return;
+    }
+    if (signal?.aborted) return;
+    setSequenceDepths(depths);
+    setOriginalImage(sequence.frames[index].image);
+    setDepthImage(depths[index]);
+
+    if (viewMode !== 'points') {
+      setSequenceClouds([]);
+      await build3DModel(sequence.frames[index].image, depths[index], progressStart, signal);
+      return;
+    }
+
+    const controller = startBuild(signal);
+
+    setIsProcessing3D(true);
+    setProgress(progressStart);
+    try {
+      const clouds: ProcessedPointCloud[] = [];
+      for (let i = 0; i < depths.length; i++) {
+        clouds.push(await buildPointCloudInWorker({
+          colorSrc: sequence.frames[i].image,
+          depthSrc: depths[i],
+          depthEncoding,
+          targetResolution: Math.min(pointResolution, SEQUENCE_RESOLUTION),
+          samplingFactor: samplingDensity,
+          isVoxelMode: false,
+          options: { ...cloudBuildOptions(), normals: true }
+        }, {
+          signal: controller.signal,
+          onProgress: (fraction) => setProgress(progressStart + (100 - progressStart) * (i + fraction) / depths.length)
+        }));
+      }
+      if (controller.signal.aborted) return;
+      setSequenceClouds(clouds);
+      setPointCloudData(clouds[index]);
+      setStatusMessage(`Ready (${clouds.length} frames).`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Sequence Build Error", error);
+      setStatusMessage("Error building sequence.");
+    } finally {
+      if (buildAbortRef.current === controller) {
+        buildAbortRef.current = null;
+        setIsProcessing3D(false);
+      }
+    }
+  };
+
+  // Timeline scrubbing: prebuilt clouds swap instantly, other modes rebuild the shown frame
+  const showSequenceFrame = (index: number) => {
+    if (!videoSequence) return;
+    const frame = videoSequence.frames[index];
+    setFrameIndex(index);
+    setOriginalImage(frame.image);
+    const depth = sequenceDepths[index];
+    if (!depth) return;
+    setDepthImage(depth);
+    if (viewMode === 'points' && sequenceClouds[index]) {
+      setPointCloudData(sequenceClouds[index]);
+    } else if (viewMode !== 'scene') {
+      build3DModel(frame.image, depth);
+    }
+  };
+
+  // Fusion: depth + cloud for an extra view, built with the current settings but no LOD
+  // so the view can be aligned and merged into the reference cloud
+  const generateFusionDepth = async (imageSrc: string, signal: AbortSignal) => {
+    if (!(await depthProvider.isConfigured(depthSettings))) {
+      setShowApiKey(true);
+      if (window.aistudio) setIsApiKeyReady(false);
+      throw new Error("Missing API Key");
+    }
+    const { result: depthResult } = await generateDepthCached(imageSrc, signal);
+    if (!depthResult || !depthResult.imageBase64) throw new Error("Failed to generate depth map");
+    return (await alignGeneratedDepth(imageSrc, depthResult)).src;
+  };
+
+  const buildFusionCloud = (colorSrc: string, depthSrc: string, signal?: AbortSignal) =>
+    buildPointCloudInWorker({
+      colorSrc,
+      depthSrc,
+      depthEncoding: 'gray8',
+      targetResolution: LOD_RESOLUTION_THRESHOLD,
+      samplingFactor: samplingDensity,
+      isVoxelMode: false,
+      options: { ...cloudBuildOptions(), normals: true }
+    }, { signal });
+
+  // Merges the fused views into a reference cloud in the worker. View clouds not in knownClouds
+  // (those built for earlier settings) are rebuilt first. Transforms are rescaled to the
+  // reference's current build size.
+  const fuseViews = async (
+    reference: ProcessedPointCloud,
+    state: FusionState,
+    knownClouds: ProcessedPointCloud[],
+    signal?: AbortSignal
+  ) => {
+    const viewClouds = [...knownClouds];
+    for (let i = viewClouds.length; i < state.views.length; i++) {
+      viewClouds.push(await buildFusionCloud(state.views[i].imageSrc, state.views[i].depthSrc, signal));
+    }
+    const size = Math.max(reference.width, reference.height);
+    const cloud = await mergeCloudsInWorker({
+      clouds: [reference, ...viewClouds],
+      transforms: [IDENTITY_TRANSFORM, ...state.views.map(view => scaleTransform(view.transform, size / view.referenceSize))],
+      dedupeSize: state.dedupeSize,
+      octree: pointResolution > LOD_RESOLUTION_THRESHOLD
+    }, { signal });
+    return { cloud, viewClouds };
+  };
+
+  // New aligned views from the fusion panel; resolves to whether they were merged
+  const handleFusionMerged = async (views: FusedView[], clouds: ProcessedPointCloud[], dedupeSize: number) => {
+    const reference = fusionBaseCloud || pointCloudData;
+    if (!reference) return false;
+    const next: FusionState = { views: [...(fusionRef.current?.views || []), ...views], dedupeSize };
+
+    const controller = startBuild();
+    setIsProcessing3D(true);
+    setStatusMessage(`Fusing ${next.views.length + 1} views...`);
+    try {
+      const fused = await fuseViews(reference, next, [...fusionCloudsRef.current, ...clouds], controller.signal);
+      if (controller.signal.aborted) return false;
+      setFusionState(next, fused.viewClouds);
+      setFusionBaseCloud(reference);
+      setPointCloudData(fused.cloud);
+      setStatusMessage(`Fused ${next.views.length + 1} views (${(fused.cloud.count / 1000).toFixed(0)}k points).`);
+      return true;
+    } catch (error) {
+      if (isAbortError(error)) return false;
+      console.error("Fusion Error", error);
+      setStatusMessage("Error fusing views.");
+      return false;
+    } finally {
+      if (buildAbortRef.current === controller) {
+        buildAbortRef.current = null;
+        setIsProcessing3D(false);
+      }
     }
   };
 
@@ -363,15 +1112,25 @@ function App() {
 
   useEffect(() => {
       if (viewMode === 'scene') return;
+      if (videoSequence) {
+           const timer = setTimeout(() => {
+               buildSequence(videoSequence);
+           }, 50);
+           return () => clearTimeout(timer);
+      }
       if (originalImage && depthImage) {
            const timer = setTimeout(() => {
                build3DModel(originalImage, depthImage);
            }, 50);
            return () => clearTimeout(timer);
       }
-  }, [viewMode, voxelResolution]); 
+  }, [viewMode, voxelResolution, meshResolution, cameraModel, edgeFilter, depthClip, sampling, depthRefinement, depthEncoding, depthResponse, voxelPalette, pointResolution, temporalSmoothing]); 
 
   const commitDensityChange = () => {
+    if (videoSequence && viewMode === 'points') {
+        buildSequence(videoSequence);
+        return;
+    }
     if (originalImage && depthImage && viewMode === 'points') {
         build3DModel(originalImage, depthImage);
     }
@@ -399,6 +1158,12 @@ function App() {
                     >
                         Select API Key
                     </button>
+                    <button 
+                        onClick={() => { setDepthProviderId('local'); setSceneProviderId('local'); setIsApiKeyReady(true); }}
+                        className="w-full mt-3 py-2 text-zinc-400 text-sm rounded-lg hover:text-white transition-colors"
+                    >
+                        Continue offline (local provider)
+                    </button>
                 </div>
             </div>
         </div>
@@ -416,6 +1181,28 @@ function App() {
         accept=".artefacto,.json" 
         className="hidden" 
       />
+      <input 
+        type="file" 
+        ref={depthFileInputRef} 
+        onChange={handleDepthUpload} 
+        accept="image/*,.pfm" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={swatchInputRef} 
+        onChange={handleSwatchUpload} 
+        accept="image/*" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={stereoInputRef} 
+        onChange={handleStereoUpload} 
+        accept="image/*,.mpo" 
+        multiple
+        className="hidden" 
+      />
 
       {/* Left Sidebar */}
       <div className="w-80 flex flex-col border-r border-zinc-800 bg-zinc-900/80 backdrop-blur-md z-20 shadow-2xl relative">
@@ -443,7 +1230,7 @@ function App() {
                  </button>
                  {originalImage && (
                     <button 
-                        onClick={() => { setOriginalImage(null); setDepthImage(null); setPointCloudData(null); setVoxelSceneHtml(null); }}
+                        onClick={() => { setOriginalImage(null); setDepthImage(null); setPointCloudData(null); setVoxelSceneHtml(null); setVoxelScene(null); clearSequence(); clearFusion(); }}
                         className="text-[10px] text-zinc-500 hover:text-white transition-colors"
                     >
                         Clear
@@ -460,7 +1247,7 @@ function App() {
               `}>
                 <input 
                   type="file" 
-                  accept="image/*" 
+                  accept="image/*,video/*" 
                   onChange={handleImageUpload} 
                   className="absolute inset-0 opacity-0 cursor-pointer z-10"
                 />
@@ -475,11 +1262,124 @@ function App() {
                 ) : (
                   <div className="text-center p-4">
                     <ImageIcon className="mx-auto mb-2 text-zinc-500 group-hover:text-zinc-300 transition-colors" size={20} />
-                    <span className="text-xs text-zinc-500 group-hover:text-zinc-300 font-medium">Open Image</span>
+                    <span className="text-xs text-zinc-500 group-hover:text-zinc-300 font-medium">Open Image or Video</span>
                   </div>
                 )}
               </div>
             </div>
+
+            <div className="flex justify-between items-center text-[10px] text-zinc-400">
+                <span>Video frame rate</span>
+                <div className="flex gap-1">
+                    {[2, 4, 8].map(fps => (
+                        <button
+                            key={fps}
+                            onClick={() => setVideoFps(fps)}
+                            className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                ${videoFps === fps ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                            `}
+                        >
+                            {fps} fps
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {videoSequence && (
+                <div className="space-y-1">
+                    <div className="flex justify-between text-[10px] text-zinc-400">
+                        <span>Temporal Smoothing</span>
+                        <span>{temporalSmoothing === 0 ? 'Off' : `${(temporalSmoothing * 100).toFixed(0)}%`}</span>
+                    </div>
+                    <input 
+                        type="range" min="0" max="0.9" step="0.05" value={temporalSmoothing}
+                        onChange={(e) => setTemporalSmoothing(parseFloat(e.target.value))}
+                        className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+                    />
+                    <p className="text-[9px] text-zinc-500">{videoSequence.frames.length} frames · reduces depth flicker between frames</p>
+                </div>
+            )}
+
+            {originalImage && !videoSequence && (
+                <button
+                    onClick={() => depthFileInputRef.current?.click()}
+                    disabled={isGenerating}
+                    className="w-full py-1.5 rounded-lg text-[10px] font-medium flex items-center justify-center gap-1.5 border border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Image (red channel or RG 16-bit), 16-bit PNG or PFM"
+                >
+                    <Upload size={10} /> Use my own depth map
+                </button>
+            )}
+
+            <div className="space-y-1.5 p-2 rounded-lg border border-zinc-800 bg-zinc-900/40">
+                <div className="flex justify-between items-center text-[10px] text-zinc-400">
+                    <span>Stereo (offline)</span>
+                    <div className="flex gap-1">
+                        {([
+                            ['block', 'Block'],
+                            ['sgm', 'SGM']
+                        ] as [StereoMatcher, string][]).map(([matcher, label]) => (
+                            <button
+                                key={matcher}
+                                onClick={() => setStereoOptions({ ...stereoOptions, matcher })}
+                                className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                    ${stereoOptions.matcher === matcher ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                `}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-zinc-500 w-16">Disparity</span>
+                    <input 
+                        type="range" min="0.02" max="0.25" step="0.01" value={stereoOptions.maxDisparity}
+                        onChange={(e) => setStereoOptions({ ...stereoOptions, maxDisparity: parseFloat(e.target.value) })}
+                        className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                    />
+                    <span className="text-[10px] text-zinc-500 w-8 text-right">{Math.round(stereoOptions.maxDisparity * 100)}%</span>
+                </div>
+                {stereoOptions.matcher === 'block' && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-zinc-500 w-16">Block</span>
+                        <input 
+                            type="range" min="3" max="15" step="2" value={stereoOptions.blockSize}
+                            onChange={(e) => setStereoOptions({ ...stereoOptions, blockSize: parseInt(e.target.value) })}
+                            className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                        />
+                        <span className="text-[10px] text-zinc-500 w-8 text-right">{stereoOptions.blockSize}px</span>
+                    </div>
+                )}
+                <div className="flex gap-1">
+                    <button
+                        onClick={() => setStereoOptions({ ...stereoOptions, rectify: !stereoOptions.rectify })}
+                        className={`flex-1 text-[9px] py-0.5 rounded border transition-colors
+                            ${stereoOptions.rectify ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                        `}
+                        title="Estimate and remove vertical misalignment between the views"
+                    >
+                        Rectify
+                    </button>
+                    <button
+                        onClick={() => setStereoSwap(!stereoSwap)}
+                        className={`flex-1 text-[9px] py-0.5 rounded border transition-colors
+                            ${stereoSwap ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                        `}
+                        title="Cross-eyed side-by-side, or files named right before left"
+                    >
+                        Swap L/R
+                    </button>
+                </div>
+                <button
+                    onClick={() => stereoInputRef.current?.click()}
+                    disabled={isGenerating}
+                    className="w-full py-1.5 rounded-lg text-[10px] font-medium flex items-center justify-center gap-1.5 border border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:text-white hover:border-zinc-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Two images (left, right), one side-by-side image or an MPO file"
+                >
+                    <Glasses size={10} /> Depth from stereo pair
+                </button>
+            </div>
           </div>
 
           {/* 2. MODE SWITCHER */}
@@ -504,6 +1404,16 @@ function App() {
             >
                 <Box size={12} className={viewMode === 'voxels' ? "text-purple-500" : ""} /> Voxel
             </button>
+            <button
+                onClick={() => switchMode('mesh')}
+                className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-[10px] font-semibold transition-all
+                    ${viewMode === 'mesh' 
+                        ? 'bg-zinc-800 text-white shadow-sm border border-zinc-700' 
+                        : 'text-zinc-500 hover:text-zinc-400 hover:bg-zinc-800/50'}
+                `}
+            >
+                <Triangle size={12} className={viewMode === 'mesh' ? "text-teal-500" : ""} /> Mesh
+            </button>
             <button
                 onClick={() => switchMode('scene')}
                 className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-[10px] font-semibold transition-all
@@ -519,6 +1429,28 @@ function App() {
           {/* 3. Generation Control */}
           <div className="space-y-2">
             {viewMode === 'scene' ? (
+                <>
+                <div className="flex justify-between items-center text-[10px] text-zinc-400">
+                    <span>Scene output</span>
+                    <div className="flex gap-1">
+                        {([
+                            ['code', 'Code'],
+                            ['voxels', 'Voxels']
+                        ] as [SceneFormat, string][]).map(([format, label]) => (
+                            <button
+                                key={format}
+                                onClick={() => setSceneFormat(format)}
+                                disabled={isGeneratingScene || (format === 'voxels' && !sceneProvider.structured)}
+                                title={format === 'voxels' ? 'JSON voxel list rendered in the voxel viewer (no generated code)' : 'Generated Three.js code run in a sandbox'}
+                                className={`text-[9px] px-2 py-0.5 rounded border transition-colors disabled:opacity-40
+                                    ${sceneFormat === format ? 'bg-amber-500/20 text-amber-300 border-amber-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                `}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                  <button
                     onClick={processSceneGeneration}
                     disabled={!originalImage || isGeneratingScene}
@@ -538,6 +1470,7 @@ function App() {
                         <> <BrainCircuit size={14} /> Generate Scene </>
                     )}
                 </button>
+                </>
             ) : (
                 <button
                     onClick={processGeneration}
@@ -565,14 +1498,60 @@ function App() {
             )}
 
             {/* Export Button */}
-            {(pointCloudData || (viewMode === 'scene' && voxelSceneHtml)) && !isGeneratingScene && (
+            {(pointCloudData || (viewMode === 'scene' && (voxelSceneHtml || voxelScene))) && !isGeneratingScene && (
                 <button
                     onClick={handleExport}
                     className="w-full py-2 rounded-lg text-xs font-medium bg-zinc-800 text-zinc-300 hover:bg-zinc-700 border border-zinc-700 flex items-center justify-center gap-2 transition-colors"
                 >
-                    <Download size={12} /> {viewMode === 'scene' ? 'Export HTML Scene' : 'Export Artefacto Cloud'}
+                    <Download size={12} /> {viewMode === 'scene' ? (voxelScene ? 'Export Voxel Scene (.json)' : 'Export HTML Scene') : 'Export Artefacto Cloud'}
                 </button>
             )}
+
+            {/* PLY Export (points & voxels) */}
+            {pointCloudData && viewMode !== 'scene' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => handleExportPLY('ascii')}
+                        className="py-1.5 rounded-lg text-[10px] font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 border border-zinc-700 flex items-center justify-center gap-1.5 transition-colors"
+                    >
+                        <Download size={10} /> PLY (ASCII)
+                    </button>
+                    <button
+                        onClick={() => handleExportPLY('binary_little_endian')}
+                        className="py-1.5 rounded-lg text-[10px] font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 border border-zinc-700 flex items-center justify-center gap-1.5 transition-colors"
+                    >
+                        <Download size={10} /> PLY (Binary)
+                    </button>
+                </div>
+            )}
+
+            {/* Voxel Export */}
+            {((pointCloudData && viewMode === 'voxels') || (viewMode === 'scene' && voxelScene && !isGeneratingScene)) && (
+                <button
+                    onClick={handleExportVOX}
+                    className="w-full py-1.5 rounded-lg text-[10px] font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 border border-zinc-700 flex items-center justify-center gap-1.5 transition-colors"
+                >
+                    <Download size={10} /> MagicaVoxel (.vox)
+                </button>
+            )}
+
+            {/* Mesh Export */}
+            {pointCloudData && viewMode === 'mesh' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={() => handleExportMesh('glb')}
+                        className="py-1.5 rounded-lg text-[10px] font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 border border-zinc-700 flex items-center justify-center gap-1.5 transition-colors"
+                    >
+                        <Download size={10} /> GLB
+                    </button>
+                    <button
+                        onClick={() => handleExportMesh('obj')}
+                        className="py-1.5 rounded-lg text-[10px] font-medium bg-zinc-800/50 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200 border border-zinc-700 flex items-center justify-center gap-1.5 transition-colors"
+                    >
+                        <Download size={10} /> OBJ + MTL
+                    </button>
+                </div>
+            )}
           </div>
 
           {/* 4. Visual Adjustments */}
@@ -581,12 +1560,13 @@ function App() {
                 <div className="flex items-center gap-2">
                     <Sliders size={14} className="text-zinc-400"/>
                     <label className="text-[11px] font-semibold text-zinc-400 uppercase tracking-wider">
-                    Visualization ({viewMode === 'points' ? 'Points' : 'Voxels'})
+                    Visualization ({viewMode === 'points' ? 'Points' : viewMode === 'mesh' ? 'Mesh' : 'Voxels'})
                     </label>
                 </div>
 
                 <div className="space-y-3">
                     <div className="flex gap-2">
+                        {viewMode !== 'mesh' && (
                         <button 
                             onClick={() => setShowBackground(!showBackground)}
                             className={`flex-1 flex items-center justify-center gap-2 p-2 rounded-lg border transition-colors group
@@ -596,6 +1576,7 @@ function App() {
                             <ImageIconLucide size={14} />
                             <span className="text-[10px]">Backdrop</span>
                         </button>
+                        )}
                         <button 
                             onClick={() => setAutoRotate(!autoRotate)}
                             className={`flex-1 flex items-center justify-center gap-2 p-2 rounded-lg border transition-colors group
@@ -622,6 +1603,147 @@ function App() {
                         </div>
                     </div>
 
+                    {/* Camera Model */}
+                    <div className="space-y-2 p-2 rounded-lg border border-zinc-800 bg-zinc-900/40">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-400 flex items-center gap-1.5">
+                                <Aperture size={12} className="text-zinc-500" /> Camera
+                            </span>
+                            <div className="flex gap-1">
+                                {(['orthographic', 'perspective'] as const).map(projection => (
+                                    <button
+                                        key={projection}
+                                        onClick={() => setCameraModel({ ...cameraModel, projection })}
+                                        className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                            ${cameraModel.projection === projection ? 'bg-sky-500/20 border-sky-500/50 text-sky-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                        `}
+                                    >
+                                        {projection === 'orthographic' ? 'Ortho' : 'Pinhole'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {cameraModel.projection === 'perspective' && (
+                            <>
+                                <div className="space-y-1">
+                                    <div className="flex justify-between text-[10px] text-zinc-400">
+                                        <span>Horizontal FOV</span>
+                                        <span>{getHorizontalFov(cameraModel).toFixed(0)}° · {fovToFocalLength35mm(getHorizontalFov(cameraModel)).toFixed(0)}mm</span>
+                                    </div>
+                                    <input 
+                                        type="range" min="20" max="120" step="1" value={getHorizontalFov(cameraModel)}
+                                        onChange={(e) => setCameraModel({ ...cameraModel, horizontalFov: parseFloat(e.target.value), focalLength35mm: undefined })}
+                                        className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-sky-500 hover:accent-sky-400"
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['x', 'y'] as const).map(axis => (
+                                        <div key={axis} className="space-y-1">
+                                            <div className="flex justify-between text-[10px] text-zinc-500">
+                                                <span>Center {axis.toUpperCase()}</span>
+                                                <span>{(cameraModel.principalPoint[axis] * 100).toFixed(0)}%</span>
+                                            </div>
+                                            <input 
+                                                type="range" min="0.3" max="0.7" step="0.01" value={cameraModel.principalPoint[axis]}
+                                                onChange={(e) => setCameraModel({ ...cameraModel, principalPoint: { ...cameraModel.principalPoint, [axis]: parseFloat(e.target.value) } })}
+                                                className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                {exifFocalLength && (
+                                    <button
+                                        onClick={() => setCameraModel({ ...cameraModel, focalLength35mm: exifFocalLength })}
+                                        className={`w-full text-[10px] py-1 rounded border transition-colors
+                                            ${cameraModel.focalLength35mm === exifFocalLength ? 'bg-sky-500/20 border-sky-500/50 text-sky-300' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'}
+                                        `}
+                                    >
+                                        Use EXIF focal length ({exifFocalLength}mm)
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    {/* Edge Filter */}
+                    <div className="space-y-2 p-2 rounded-lg border border-zinc-800 bg-zinc-900/40">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-400 flex items-center gap-1.5">
+                                <Scissors size={12} className="text-zinc-500" /> Edge Filter
+                            </span>
+                            <div className="flex gap-1">
+                                {(['off', 'drop', 'snap'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setEdgeFilter({ ...edgeFilter, mode })}
+                                        className={`text-[9px] px-2 py-0.5 rounded border capitalize transition-colors
+                                            ${edgeFilter.mode === mode ? 'bg-rose-500/20 border-rose-500/50 text-rose-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                        `}
+                                    >
+                                        {mode}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {edgeFilter.mode !== 'off' && (
+                            <div className="space-y-1">
+                                <div className="flex justify-between text-[10px] text-zinc-400">
+                                    <span>Threshold</span>
+                                    <span>{(edgeFilter.threshold * 100).toFixed(0)}%</span>
+                                </div>
+                                <input 
+                                    type="range" min="0.01" max="0.3" step="0.01" value={edgeFilter.threshold}
+                                    onChange={(e) => setEdgeFilter({ ...edgeFilter, threshold: parseFloat(e.target.value) })}
+                                    className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-rose-500 hover:accent-rose-400"
+                                />
+                                <p className="text-[9px] text-zinc-500">Lower = more aggressive on silhouettes</p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Depth Clipping */}
+                    <div className="space-y-2 p-2 rounded-lg border border-zinc-800 bg-zinc-900/40">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-400 flex items-center gap-1.5">
+                                <Crop size={12} className="text-zinc-500" /> Clipping
+                            </span>
+                            <button
+                                onClick={() => setDepthClip({ ...depthClip, removeBackground: !depthClip.removeBackground })}
+                                className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                    ${depthClip.removeBackground ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                `}
+                            >
+                                Remove BG
+                            </button>
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[10px] text-zinc-400">
+                                <span>Near</span>
+                                <span>{(depthClip.near * 100).toFixed(0)}%</span>
+                            </div>
+                            <input 
+                                type="range" min="0.05" max="1.0" step="0.01" value={depthClip.near}
+                                onChange={(e) => setDepthClip({ ...depthClip, near: Math.max(parseFloat(e.target.value), depthClip.far + 0.01) })}
+                                className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[10px] text-zinc-400">
+                                <span>Far</span>
+                                <span>{(depthClip.far * 100).toFixed(0)}%</span>
+                            </div>
+                            <input 
+                                type="range" min="0.0" max="0.95" step="0.01" value={depthClip.far}
+                                onChange={(e) => setDepthClip({ ...depthClip, far: Math.min(parseFloat(e.target.value), depthClip.near - 0.01) })}
+                                className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-amber-500 hover:accent-amber-400"
+                            />
+                        </div>
+                        {depthClip.removeBackground && (
+                            <p className="text-[9px] text-zinc-500">Far plane picked automatically (Otsu)</p>
+                        )}
+                    </div>
+
                     {/* Conditional Controls based on Mode */}
                     {viewMode === 'points' ? (
                         <>
@@ -636,6 +1758,43 @@ function App() {
                                     className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
                                 />
                             </div>
+                            <div className="space-y-1">
+                                <div className="flex justify-between items-center text-[10px] text-zinc-400">
+                                    <span>Resolution</span>
+                                    <div className="flex gap-1">
+                                        {([
+                                            [1024, '1K'],
+                                            [2048, '2K'],
+                                            [4096, '4K'],
+                                            [FULL_RESOLUTION, 'Full']
+                                        ] as [number, string][]).map(([resolution, label]) => (
+                                            <button
+                                                key={resolution}
+                                                onClick={() => setPointResolution(resolution)}
+                                                className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                                    ${pointResolution === resolution ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                                `}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {pointResolution > LOD_RESOLUTION_THRESHOLD && (
+                                    <>
+                                        <div className="flex justify-between text-[10px] text-zinc-400 pt-1">
+                                            <span>Point Budget</span>
+                                            <span>{(pointBudget / 1000000).toFixed(1)}M</span>
+                                        </div>
+                                        <input 
+                                            type="range" min="500000" max="8000000" step="250000" value={pointBudget}
+                                            onChange={(e) => setPointBudget(parseInt(e.target.value))}
+                                            className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400"
+                                        />
+                                        <p className="text-[9px] text-zinc-500">LOD octree: only nodes in view are streamed, up to the budget</p>
+                                    </>
+                                )}
+                            </div>
                             <div className="space-y-1">
                                 <div className="flex justify-between text-[10px] text-zinc-400">
                                     <span>Density</span>
@@ -650,6 +1809,105 @@ function App() {
                                     className={`w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400 disabled:opacity-50`}
                                 />
                             </div>
+                            <div className="space-y-1">
+                                <div className="flex justify-between items-center text-[10px] text-zinc-400">
+                                    <span>Sampling</span>
+                                    <button
+                                        onClick={() => setSampling({ ...sampling, seed: randomSeed() })}
+                                        className="flex items-center gap-1 text-zinc-500 hover:text-zinc-300 font-mono transition-colors"
+                                        title="New seed"
+                                    >
+                                        <Dices size={10} /> {sampling.seed}
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {([
+                                        ['random', 'Random'],
+                                        ['stratified', 'Grid'],
+                                        ['poisson', 'Blue'],
+                                        ['detail', 'Detail']
+                                    ] as [SamplingStrategy, string][]).map(([strategy, label]) => (
+                                        <button
+                                            key={strategy}
+                                            onClick={() => setSampling({ ...sampling, strategy })}
+                                            className={`text-[9px] py-1 rounded border transition-colors
+                                                ${sampling.strategy === strategy ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                            `}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-3 gap-1">
+                                <button
+                                    onClick={() => setPointLighting(!pointLighting)}
+                                    className={`flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border transition-colors
+                                        ${pointLighting ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                    `}
+                                >
+                                    <Sun size={10} /> Lit
+                                </button>
+                                <button
+                                    onClick={() => setHemisphereLight(!hemisphereLight)}
+                                    disabled={!pointLighting}
+                                    className={`text-[9px] py-1.5 rounded border transition-colors disabled:opacity-40
+                                        ${hemisphereLight ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                    `}
+                                >
+                                    Hemi
+                                </button>
+                                <button
+                                    onClick={() => setAdditiveBlending(!additiveBlending)}
+                                    className={`flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border transition-colors
+                                        ${additiveBlending ? 'bg-blue-500/20 border-blue-500/50 text-blue-300' : 'bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300'}
+                                    `}
+                                >
+                                    <Sparkles size={10} /> Glow
+                                </button>
+                            </div>
+                            {originalImage && pointCloudData && !videoSequence && (
+                                <FusionPanel
+                                    referenceImage={originalImage}
+                                    referenceCloud={fusionBaseCloud || pointCloudData}
+                                    fusedCount={fusion ? fusion.views.length : 0}
+                                    dedupeSize={fusion ? fusion.dedupeSize : 1}
+                                    requestSignal={fusionSignal}
+                                    onUnmount={cancelFusionRequests}
+                                    generateDepth={generateFusionDepth}
+                                    buildCloud={buildFusionCloud}
+                                    onMerge={handleFusionMerged}
+                                    onUnfuse={() => {
+                                        clearFusion();
+                                        if (fusionBaseCloud) setPointCloudData(fusionBaseCloud);
+                                    }}
+                                />
+                            )}
+                        </>
+                    ) : viewMode === 'mesh' ? (
+                        // MESH SETTINGS
+                        <>
+                            <div className="space-y-1">
+                                <div className="flex justify-between text-[10px] text-zinc-400">
+                                    <span>Mesh Resolution</span>
+                                    <span>{meshResolution} px</span>
+                                </div>
+                                <input 
+                                    type="range" min="64" max="1024" step="32" value={meshResolution}
+                                    onChange={(e) => setMeshResolution(parseInt(e.target.value))}
+                                    disabled={!pointCloudData}
+                                    className={`w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-teal-500 hover:accent-teal-400 disabled:opacity-50`}
+                                />
+                            </div>
+                            <button 
+                                onClick={() => setMeshWireframe(!meshWireframe)}
+                                className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg border transition-colors
+                                    ${meshWireframe ? 'bg-teal-500/20 border-teal-500/50 text-teal-300' : 'bg-zinc-800/50 border-zinc-700 text-zinc-400 hover:bg-zinc-800'}
+                                `}
+                            >
+                                <Triangle size={12} />
+                                <span className="text-[10px]">Wireframe</span>
+                            </button>
                         </>
                     ) : (
                         // VOXEL SETTINGS
@@ -665,6 +1923,98 @@ function App() {
                                 className={`w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-purple-500 hover:accent-purple-400 disabled:opacity-50`}
                             />
                             <p className="text-[9px] text-zinc-500">Higher resolution = smaller cubes</p>
+
+                            <div className="flex items-center justify-between pt-1">
+                                <span className="text-[10px] text-zinc-400">Fill</span>
+                                <div className="flex gap-1">
+                                    {([
+                                        ['shell', 'Shell'],
+                                        ['gaps', 'Gaps'],
+                                        ['columns', 'Columns']
+                                    ] as [VoxelFillMode, string][]).map(([mode, label]) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setVoxelFill(mode)}
+                                            className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                                ${voxelFill === mode ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                            `}
+                                            title={mode === 'shell' ? 'Surface only' : mode === 'gaps' ? 'Close vertical steps between neighbours' : 'Extrude down to the back plane'}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Palette quantisation */}
+                            <div className="space-y-2 pt-1">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-[10px] text-zinc-400">Palette</span>
+                                    <button
+                                        onClick={() => setVoxelPalette({ ...voxelPalette, dither: !voxelPalette.dither })}
+                                        disabled={voxelPalette.mode === 'retro'}
+                                        className={`text-[9px] px-2 py-0.5 rounded border transition-colors disabled:opacity-40
+                                            ${voxelPalette.dither ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                        `}
+                                        title="Floyd-Steinberg dithering"
+                                    >
+                                        Dither
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    {([
+                                        ['retro', 'Retro'],
+                                        ['kmeans', 'K-means'],
+                                        ['median-cut', 'Median'],
+                                        ['bricks', 'Bricks'],
+                                        ['custom', 'Swatch']
+                                    ] as [PaletteMode, string][]).map(([mode, label]) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => mode === 'custom' && !voxelPalette.customColors
+                                                ? swatchInputRef.current?.click()
+                                                : setVoxelPalette({ ...voxelPalette, mode })}
+                                            className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                                ${voxelPalette.mode === mode ? 'bg-purple-500/20 text-purple-300 border-purple-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                            `}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {(voxelPalette.mode === 'kmeans' || voxelPalette.mode === 'median-cut') && (
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] text-zinc-500 w-12">Colors</span>
+                                        <input 
+                                            type="range" min="2" max="64" step="1"
+                                            value={voxelPalette.size}
+                                            onChange={(e) => setVoxelPalette({ ...voxelPalette, size: parseInt(e.target.value) })}
+                                            className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                        />
+                                        <span className="text-[10px] text-zinc-500 w-6 text-right">{voxelPalette.size}</span>
+                                    </div>
+                                )}
+                                {voxelPalette.mode === 'custom' && (
+                                    <button
+                                        onClick={() => swatchInputRef.current?.click()}
+                                        className="text-[9px] text-purple-400 hover:text-purple-300 transition-colors"
+                                    >
+                                        Load swatch image...
+                                    </button>
+                                )}
+                                {pointCloudData?.palette && (
+                                    <div className="flex flex-wrap gap-0.5">
+                                        {pointCloudData.palette.map((color, i) => (
+                                            <div
+                                                key={i}
+                                                className={`w-3.5 h-3.5 rounded-sm border border-black/40 ${pointCloudData.paletteCounts?.[i] ? '' : 'opacity-25'}`}
+                                                style={{ backgroundColor: rgbToHex(color) }}
+                                                title={`${rgbToHex(color)} · ${pointCloudData.paletteCounts?.[i] ?? 0} surface voxels`}
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     )}
 
@@ -676,7 +2026,7 @@ function App() {
              <div className="mt-4 p-3 bg-zinc-900/50 rounded-lg border border-amber-500/20 animate-in fade-in">
                  <div className="flex items-center gap-2 text-amber-500 mb-2">
                      <BrainCircuit size={14} className="animate-pulse" />
-                     <span className="text-[10px] font-semibold uppercase tracking-wider">Gemini Thinking</span>
+                     <span className="text-[10px] font-semibold uppercase tracking-wider">{sceneProvider.name} Thinking</span>
                  </div>
                  <div className="text-[10px] text-zinc-400 font-mono leading-relaxed h-32 overflow-y-auto scrollbar-thin whitespace-pre-wrap">
                      {sceneThought}
@@ -730,6 +2080,132 @@ function App() {
                             className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-blue-500"
                          />
                      </div>
+
+                    {/* Encoding of 8-bit depth images (affects the 3D build) */}
+                    <div className="flex items-center justify-between px-2 py-1 bg-zinc-800 rounded border border-zinc-700">
+                        <span className="text-[10px] text-zinc-500">Encoding</span>
+                        <div className="flex gap-1">
+                            {([
+                                ['gray8', '8-bit'],
+                                ['rg16', 'RG 16-bit']
+                            ] as [DepthEncoding, string][]).map(([encoding, label]) => (
+                                <button
+                                    key={encoding}
+                                    onClick={() => setDepthEncoding(encoding)}
+                                    className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors
+                                        ${depthEncoding === encoding ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                    `}
+                                    title={encoding === 'rg16' ? 'Depth packed as red (high byte) + green (low byte)' : 'Depth in the red channel'}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Response: how gray values map to depth (affects the 3D build) */}
+                    <div className="space-y-1.5 px-2 py-1.5 bg-zinc-800 rounded border border-zinc-700">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-500">Response</span>
+                            <div className="flex gap-1">
+                                {([
+                                    ['linear', 'Depth'],
+                                    ['disparity', 'Disparity'],
+                                    ['log', 'Log']
+                                ] as [DepthInterpretation, string][]).map(([interpretation, label]) => (
+                                    <button
+                                        key={interpretation}
+                                        onClick={() => setDepthResponse({ ...depthResponse, interpretation })}
+                                        className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors
+                                            ${depthResponse.interpretation === interpretation ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                        `}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => setDepthResponse({ ...depthResponse, invert: !depthResponse.invert })}
+                                    className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors
+                                        ${depthResponse.invert ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                    `}
+                                    title="Swap near and far"
+                                >
+                                    Invert
+                                </button>
+                            </div>
+                        </div>
+                        <DepthCurveEditor
+                            curve={depthResponse.curve}
+                            histogram={depthHistogram}
+                            invert={depthResponse.invert}
+                            onChange={(curve) => setDepthResponse({ ...depthResponse, curve })}
+                        />
+                        <div className="flex items-center justify-between">
+                            <span className="text-[9px] text-zinc-600">Double-click to add / remove points</span>
+                            <button
+                                onClick={() => setDepthResponse({ ...depthResponse, curve: DEFAULT_DEPTH_RESPONSE.curve })}
+                                className="text-[9px] text-zinc-500 hover:text-white transition-colors"
+                            >
+                                Reset curve
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Refinement (guided by the color image, affects the 3D build) */}
+                    <div className="space-y-1.5 px-2 py-1.5 bg-zinc-800 rounded border border-zinc-700">
+                        <div className="flex items-center justify-between">
+                            <span className="text-[10px] text-zinc-500">Refine</span>
+                            <div className="flex gap-1">
+                                {([
+                                    ['none', 'Off'],
+                                    ['bilateral', 'Bilateral'],
+                                    ['guided', 'Guided']
+                                ] as [DepthRefinementMethod, string][]).map(([method, label]) => (
+                                    <button
+                                        key={method}
+                                        onClick={() => setDepthRefinement({ ...depthRefinement, method })}
+                                        className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors
+                                            ${depthRefinement.method === method ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                        `}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => setDepthRefinement({ ...depthRefinement, median: !depthRefinement.median })}
+                                    className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors
+                                        ${depthRefinement.median ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                    `}
+                                    title="3x3 median denoise"
+                                >
+                                    Median
+                                </button>
+                            </div>
+                        </div>
+                        {depthRefinement.method !== 'none' && (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[10px] text-zinc-500 w-12">Strength</span>
+                                    <input 
+                                        type="range" min="0.1" max="1.0" step="0.05"
+                                        value={depthRefinement.strength}
+                                        onChange={(e) => setDepthRefinement({ ...depthRefinement, strength: parseFloat(e.target.value) })}
+                                        className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                                    />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[10px] text-zinc-500 w-12">Radius</span>
+                                    <input 
+                                        type="range" min="1" max="8" step="1"
+                                        value={depthRefinement.radius}
+                                        onChange={(e) => setDepthRefinement({ ...depthRefinement, radius: parseInt(e.target.value) })}
+                                        className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-indigo-500"
+                                    />
+                                    <span className="text-[10px] text-zinc-500 w-6 text-right">{depthRefinement.radius}</span>
+                                </div>
+                            </>
+                        )}
+                    </div>
                 </div>
 
                 <div 
@@ -744,6 +2220,16 @@ function App() {
                         </div>
                     )}
                 </div>
+
+                {depthWarnings.length > 0 && (
+                    <div className="space-y-0.5">
+                        {depthWarnings.map(warning => (
+                            <p key={warning} className="text-[9px] text-amber-400/90 flex items-start gap-1">
+                                <AlertTriangle size={9} className="shrink-0 mt-px" /> {warning}
+                            </p>
+                        ))}
+                    </div>
+                )}
             </div>
           )}
 
@@ -771,14 +2257,68 @@ function App() {
                      </div>
                 </div>
                 
-                <div className={`overflow-hidden transition-all duration-300 ease-in-out ${showApiKey ? 'max-h-20 opacity-100 mt-2' : 'max-h-0 opacity-0'}`}>
-                    <input 
-                        type="password"
-                        value={manualApiKey}
-                        onChange={(e) => setManualApiKey(e.target.value)}
-                        placeholder="Paste Gemini API Key..."
-                        className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-[10px] text-zinc-300 placeholder:text-zinc-700 focus:border-blue-500/50 focus:outline-none transition-colors font-mono"
-                    />
+                <div className={`overflow-hidden transition-all duration-300 ease-in-out ${showApiKey ? 'max-h-[40rem] opacity-100 mt-2' : 'max-h-0 opacity-0'}`}>
+                    <div className="space-y-2">
+                        {([
+                            ['Depth', depthProviderId, setDepthProviderId, listDepthProviders()],
+                            ['Scene', sceneProviderId, setSceneProviderId, listSceneProviders()]
+                        ] as [string, string, (id: string) => void, { id: string, name: string }[]][]).map(([label, selectedId, select, providers]) => (
+                            <div key={label} className="flex justify-between items-center text-[10px] text-zinc-500">
+                                <span>{label}</span>
+                                <div className="flex gap-1">
+                                    {providers.map(provider => (
+                                        <button
+                                            key={provider.id}
+                                            onClick={() => select(provider.id)}
+                                            className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+                                                ${selectedId === provider.id ? 'bg-blue-500/20 text-blue-300 border-blue-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+                                            `}
+                                        >
+                                            {provider.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+
+                        {/* Settings of the selected providers (shared when both use the same backend) */}
+                        {[depthProvider, sceneProvider]
+                            .filter((provider, i, all) => all.findIndex(p => p.id === provider.id) === i)
+                            .flatMap(provider => provider.settingsFields.map(field => {
+                                const value = resolveProviderSettings(provider, providerSettings[provider.id])[field.key] ?? '';
+                                const update = (next: string) => setProviderSettings({
+                                    ...providerSettings,
+                                    [provider.id]: { ...providerSettings[provider.id], [field.key]: next }
+                                });
+                                return field.type === 'select' ? (
+                                    <div key={`${provider.id}.${field.key}`} className="flex justify-between items-center text-[10px] text-zinc-500">
+                                        <span>{field.label}</span>
+                                        <select
+                                            value={value}
+                                            onChange={(e) => update(e.target.value)}
+                                            className="bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[10px] text-zinc-300 focus:border-blue-500/50 focus:outline-none"
+                                        >
+                                            {field.options?.map(option => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ) : (
+                                    <input 
+                                        key={`${provider.id}.${field.key}`}
+                                        type={field.type}
+                                        value={value}
+                                        onChange={(e) => update(e.target.value)}
+                                        placeholder={field.placeholder || field.label}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-[10px] text-zinc-300 placeholder:text-zinc-700 focus:border-blue-500/50 focus:outline-none transition-colors font-mono"
+                                    />
+                                );
+                            }))}
+
+                        <div className="pt-2 border-t border-white/5">
+                            <CachePanel enabled={useResultCache} onToggle={setUseResultCache} refreshKey={cacheRevision} />
+                        </div>
+                    </div>
                 </div>
              </div>
           </div>
@@ -801,7 +2341,17 @@ function App() {
         <div className="absolute inset-0">
              {viewMode === 'scene' ? (
                  <div className="w-full h-full relative">
-                     {voxelSceneHtml ? (
+                     {sceneLayers ? (
+                         <VoxelViewer
+                            data={null}
+                            layers={sceneLayers}
+                            gestureRef={gestureRef}
+                            resetTrigger={resetTrigger}
+                            depthExaggeration={1}
+                            autoRotate={autoRotate}
+                            voxelDensity={1}
+                         />
+                     ) : voxelSceneHtml ? (
                          <iframe 
                             ref={iframeRef}
                             srcDoc={voxelSceneHtml} 
@@ -813,7 +2363,7 @@ function App() {
                          <div className="w-full h-full flex flex-col items-center justify-center text-zinc-600">
                              {!isGeneratingScene && <Box size={48} className="mb-4 opacity-20" />}
                              <p className="opacity-50 text-sm">
-                                 {isGeneratingScene ? "Generating Code..." : "Generate a voxel scene to preview here"}
+                                 {isGeneratingScene ? (sceneFormat === 'voxels' ? "Generating Voxels..." : "Generating Code...") : "Generate a voxel scene to preview here"}
                              </p>
                          </div>
                      )}
@@ -829,6 +2379,20 @@ function App() {
                         showBackground={showBackground}
                         depthExaggeration={depthExaggeration}
                         autoRotate={autoRotate}
+                        lighting={pointLighting}
+                        hemisphereLight={hemisphereLight}
+                        additiveBlending={additiveBlending}
+                        pointBudget={pointBudget}
+                     />
+                 ) : viewMode === 'mesh' ? (
+                     <MeshViewer 
+                        data={pointCloudData} 
+                        gestureRef={gestureRef} 
+                        resetTrigger={resetTrigger} 
+                        depthExaggeration={depthExaggeration}
+                        autoRotate={autoRotate}
+                        originalImage={originalImage}
+                        wireframe={meshWireframe}
                      />
                  ) : (
                      <VoxelViewer 
@@ -840,6 +2404,7 @@ function App() {
                         voxelDensity={1}
                         originalImage={originalImage}
                         showBackground={showBackground}
+                        fillMode={voxelFill}
                      />
                  )
              )}
@@ -869,6 +2434,16 @@ function App() {
                   <p className="text-[10px] text-zinc-500 text-center animate-pulse">
                       {statusMessage}
                   </p>
+
+                  <button
+                      onClick={() => {
+                          cancelGeneration();
+                          setStatusMessage("Cancelled.");
+                      }}
+                      className="w-full py-1.5 rounded-lg text-[10px] font-medium border border-zinc-700 bg-zinc-800/80 text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors flex items-center justify-center gap-1.5"
+                  >
+                      <X size={10} /> Cancel
+                  </button>
                </div>
             </div>
         )}
@@ -884,6 +2459,19 @@ function App() {
                 </div>
              </div>
 
+             {videoSequence && (
+                <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2">
+                    <SequenceTimeline
+                        frameCount={videoSequence.frames.length}
+                        index={frameIndex}
+                        fps={videoSequence.fps}
+                        time={videoSequence.frames[frameIndex]?.time ?? 0}
+                        canPlay={viewMode === 'points' && sequenceClouds.length === videoSequence.frames.length}
+                        onChange={showSequenceFrame}
+                    />
+                </div>
+             )}
+
              {/* Center Bottom Reset Button */}
              <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                 <button
@@ -925,7 +2513,7 @@ function App() {
                 />
                 <div className="absolute bottom-4 left-0 right-0 text-center pointer-events-none">
                     <span className="bg-black/50 px-3 py-1 rounded-full text-xs text-white backdrop-blur-md border border-white/10">
-                        Generated by Gemini
+                        {depthSource || 'Depth Map'}
                     </span>
                 </div>
             </div>
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2, X, Layers, Box, Boxes } from 'lucide-react';
+import { CacheEntryInfo, MAX_CACHE_BYTES, clearCache, deleteCacheEntry, listCacheEntries } from '../services/resultCache';
+
+interface CachePanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  refreshKey: number; // Bumped by the parent after new results may have been stored
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatAge = (time: number) => {
+  const minutes = Math.round((Date.now() - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (60 * 24))}d ago`;
+};
+
+// Cached depth maps / scenes (IndexedDB): total size, per-entry eviction and clear all
+const CachePanel: React.FC<CachePanelProps> = ({ enabled, onToggle, refreshKey }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listCacheEntries()
+      .then(list => {
+        setEntries(list);
+        setError(null);
+      })
+      .catch(err => {
+        console.warn("Cache listing failed", err);
+        setError("Cache unavailable in this browser");
+      });
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex justify-between items-center text-[10px] text-zinc-500">
+        <span className="flex items-center gap-1.5"><Database size={10} /> Result cache</span>
+        <button
+          onClick={() => onToggle(!enabled)}
+          className={`text-[9px] px-2 py-0.5 rounded border transition-colors
+            ${enabled ? 'bg-blue-500/20 text-blue-300 border-blue-500/50' : 'bg-zinc-900 text-zinc-500 border-zinc-700 hover:text-zinc-300'}
+          `}
+        >
+          {enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-[9px] text-amber-400">{error}</p>
+      ) : (
+        <>
+          <div className="flex justify-between items-center text-[9px] text-zinc-600">
+            <span>{entries.length} {entries.length === 1 ? 'entry' : 'entries'} · {formatBytes(totalBytes)} of {formatBytes(MAX_CACHE_BYTES)}</span>
+            {entries.length > 0 && (
+              <button
+                onClick={() => clearCache().then(refresh)}
+                className="flex items-center gap-1 text-zinc-500 hover:text-red-400 transition-colors"
+              >
+                <Trash2 size={9} /> Clear all
+              </button>
+            )}
+          </div>
+
+          {entries.length > 0 && (
+            <div className="max-h-32 overflow-y-auto space-y-0.5 pr-1">
+              {entries.map(entry => (
+                <div key={entry.key} className="flex items-center gap-1.5 text-[9px] text-zinc-500">
+                  {entry.kind === 'depth' ? <Layers size={9} className="shrink-0" />
+                    : entry.kind === 'voxels' ? <Boxes size={9} className="shrink-0" />
+                    : <Box size={9} className="shrink-0" />}
+                  <span className="flex-1 truncate text-zinc-400" title={entry.key}>{entry.model}</span>
+                  <span className="w-12 text-right">{formatBytes(entry.size)}</span>
+                  <span className="w-12 text-right">{formatAge(entry.lastUsed)}</span>
+                  <button
+                    onClick={() => deleteCacheEntry(entry.key).then(refresh)}
+                    className="text-zinc-600 hover:text-red-400 transition-colors"
+                    title="Evict"
+                  >
+                    <X size={9} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
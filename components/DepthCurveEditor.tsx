@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DepthCurvePoint } from '../types';
+import { createCurveEvaluator, normaliseCurve } from '../utils/depthResponse';
+
+interface DepthCurveEditorProps {
+  curve: DepthCurvePoint[];
+  // Normalised bin heights (0..1) drawn behind the curve
+  histogram: number[];
+  invert: boolean;
+  onChange: (curve: DepthCurvePoint[]) => void;
+}
+
+// Roughly the on-screen aspect of the sidebar panel, so point markers stay round
+const WIDTH = 260;
+const HEIGHT = 100;
+const HIT_RADIUS = 0.06;
+
+// Spline editor for the depth response curve.
+// Drag points to move them, double-click empty space to add one, double-click a point to remove it.
+// Edits are kept locally while dragging and committed on release, so the cloud only rebuilds once.
+const DepthCurveEditor: React.FC<DepthCurveEditorProps> = ({ curve, histogram, invert, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<DepthCurvePoint[]>(() => normaliseCurve(curve));
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (dragIndex === null) setDraft(normaliseCurve(curve));
+  }, [curve]);
+
+  const path = useMemo(() => {
+    const evaluate = createCurveEvaluator(draft);
+    const steps = 64;
+    let d = '';
+    for (let i = 0; i <= steps; i++) {
+      const x = i / steps;
+      const y = invert ? 1 - evaluate(x) : evaluate(x);
+      d += `${i === 0 ? 'M' : 'L'}${(x * WIDTH).toFixed(2)},${((1 - y) * HEIGHT).toFixed(2)}`;
+    }
+    return d;
+  }, [draft, invert]);
+
+  const toCurveSpace = (e: React.PointerEvent | React.MouseEvent): DepthCurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const y = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height));
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      // Points are drawn inverted when the invert toggle is on
+      y: invert ? 1 - y : y
+    };
+  };
+
+  const findPoint = (p: DepthCurvePoint) =>
+    draft.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) < HIT_RADIUS);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurveSpace(e));
+    if (index < 0) return;
+    svgRef.current!.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const p = toCurveSpace(e);
+    setDraft(prev => prev.map((q, i) => {
+      if (i !== dragIndex) return q;
+      // Endpoints stay pinned to the edges; inner points cannot cross their neighbours
+      if (i === 0) return { x: 0, y: p.y };
+      if (i === prev.length - 1) return { x: 1, y: p.y };
+      const minX = prev[i - 1].x + 0.01;
+      const maxX = prev[i + 1].x - 0.01;
+      return { x: Math.max(minX, Math.min(maxX, p.x)), y: p.y };
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    svgRef.current!.releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+    onChange(draft);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const p = toCurveSpace(e);
+    const index = findPoint(p);
+    if (index > 0 && index < draft.length - 1) {
+      onChange(draft.filter((_, i) => i !== index));
+    } else if (index < 0) {
+      onChange(normaliseCurve([...draft, p]));
+    }
+  };
+
+  const barWidth = WIDTH / Math.max(1, histogram.length);
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-24 rounded bg-zinc-900 border border-zinc-700 cursor-crosshair touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {histogram.map((h, i) => (
+        <rect key={i} x={i * barWidth} y={HEIGHT - h * HEIGHT} width={barWidth} height={h * HEIGHT} fill="#3f3f46" />
+      ))}
+      <line x1="0" y1={HEIGHT} x2={WIDTH} y2="0" stroke="#52525b" strokeWidth="0.5" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+      <path d={path} fill="none" stroke="#818cf8" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+      {draft.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x * WIDTH}
+          cy={(1 - (invert ? 1 - p.y : p.y)) * HEIGHT}
+          r="3.5"
+          fill={i === dragIndex ? '#e0e7ff' : '#818cf8'}
+          stroke="#18181b"
+          strokeWidth="0.5"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default DepthCurveEditor;
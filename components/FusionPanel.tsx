@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Combine, Plus, X, Crosshair, Loader2 } from 'lucide-react';
+import { FusedView, ProcessedPointCloud, SimilarityTransform, Vec3 } from '../types';
+import { estimateSimilarity, refineAlignmentICP, findPointAtPixel } from '../utils/registration';
+
+// Normalised image coordinates (0..1) of a picked correspondence
+interface Pick {
+  u: number;
+  v: number;
+}
+
+interface FusionView {
+  id: number;
+  imageSrc: string;
+  depthSrc: string | null;
+  cloud: ProcessedPointCloud | null;
+  status: 'depth' | 'building' | 'ready' | 'error';
+  error?: string;
+  // Correspondences: picks[i] on this view matches referencePicks[i] on the reference
+  picks: Pick[];
+  referencePicks: Pick[];
+  transform: SimilarityTransform | null;
+  rms: number | null;
+}
+
+interface FusionPanelProps {
+  referenceImage: string;
+  // Reference cloud without any fused views (alignment target)
+  referenceCloud: ProcessedPointCloud;
+  // Views already merged into the displayed cloud
+  fusedCount: number;
+  dedupeSize: number;
+  // Signal for view requests; it fires on Cancel, and onUnmount aborts it too
+  requestSignal: () => AbortSignal;
+  onUnmount: () => void;
+  generateDepth: (imageSrc: string, signal: AbortSignal) => Promise<string>;
+  buildCloud: (colorSrc: string, depthSrc: string, signal: AbortSignal) => Promise<ProcessedPointCloud>;
+  // Merges the aligned views (with their clouds); resolves to false when it failed or was cancelled
+  onMerge: (views: FusedView[], clouds: ProcessedPointCloud[], dedupeSize: number) => Promise<boolean>;
+  onUnfuse: () => void;
+}
+
+const PICK_COUNT = 3;
+const PICK_COLORS = ['#f87171', '#4ade80', '#60a5fa'];
+
+let nextViewId = 1;
+
+// Clickable image with numbered correspondence markers
+const PickImage = ({ src, picks, label, onPick }: { src: string, picks: Pick[], label: string, onPick: (pick: Pick) => void }) => (
+  <div className="space-y-1">
+    <span className="text-[9px] text-zinc-500">{label}</span>
+    <div className="relative rounded border border-zinc-700 overflow-hidden cursor-crosshair">
+      <img
+        src={src}
+        alt={label}
+        className="w-full h-auto block select-none"
+        draggable={false}
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onPick({ u: (e.clientX - rect.left) / rect.width, v: (e.clientY - rect.top) / rect.height });
+        }}
+      />
+      {picks.map((pick, i) => (
+        <div
+          key={i}
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border border-black text-[7px] font-bold text-black flex items-center justify-center pointer-events-none"
+          style={{ left: `${pick.u * 100}%`, top: `${pick.v * 100}%`, backgroundColor: PICK_COLORS[i] }}
+        >
+          {i + 1}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Multi-photo fusion: extra photos of the same subject get their own cloud, are aligned to the
+// current (reference) cloud from 3 picked correspondences refined by ICP, then merged in the
+// cloud worker. Merged views are kept by the app and re-merged whenever the reference rebuilds.
+const FusionPanel: React.FC<FusionPanelProps> = ({
+  referenceImage, referenceCloud, fusedCount, dedupeSize: initialDedupeSize,
+  requestSignal, onUnmount, generateDepth, buildCloud, onMerge, onUnfuse
+}) => {
+  const [views, setViews] = useState<FusionView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const [dedupeSize, setDedupeSize] = useState<number>(initialDedupeSize);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      onUnmount();
+    };
+  }, []);
+
+  const updateView = (id: number, patch: Partial<FusionView>) =>
+    setViews(prev => prev.map(view => view.id === id ? { ...view, ...patch } : view));
+
+  const addView = async (imageSrc: string) => {
+    const id = nextViewId++;
+    const signal = requestSignal();
+    setViews(prev => [...prev, {
+      id, imageSrc, depthSrc: null, cloud: null, status: 'depth', picks: [], referencePicks: [], transform: null, rms: null
+    }]);
+    // A cancelled view is dropped (unless the panel is already gone)
+    const dropView = () => {
+      if (mountedRef.current) setViews(prev => prev.filter(view => view.id !== id));
+    };
+
+    try {
+      const depthSrc = await generateDepth(imageSrc, signal);
+      if (signal.aborted) return dropView();
+      updateView(id, { status: 'building', depthSrc });
+      const cloud = await buildCloud(imageSrc, depthSrc, signal);
+      if (signal.aborted) return dropView();
+      updateView(id, { status: 'ready', cloud });
+      setActiveViewId(id);
+    } catch (error) {
+      if (signal.aborted) return dropView();
+      console.error("Fusion View Error", error);
+      updateView(id, { status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (event.target?.result) addView(event.target.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const addPick = (view: FusionView, side: 'picks' | 'referencePicks', pick: Pick) => {
+    const current = view[side];
+    // Once all three are placed, further clicks start over
+    const next = current.length >= PICK_COUNT ? [pick] : [...current, pick];
+    updateView(view.id, { [side]: next, transform: null, rms: null });
+  };
+
+  const toCloudPoint = (cloud: ProcessedPointCloud, pick: Pick): Vec3 | null =>
+    findPointAtPixel(cloud, pick.u * cloud.width - 0.5, pick.v * cloud.height - 0.5);
+
+  const alignView = (view: FusionView) => {
+    if (!view.cloud) return;
+    const source: Vec3[] = [];
+    const target: Vec3[] = [];
+    for (let i = 0; i < PICK_COUNT; i++) {
+      const s = toCloudPoint(view.cloud, view.picks[i]);
+      const t = toCloudPoint(referenceCloud, view.referencePicks[i]);
+      if (!s || !t) {
+        updateView(view.id, { error: `Pick ${i + 1} has no depth (background or filtered)` });
+        return;
+      }
+      source.push(s);
+      target.push(t);
+    }
+
+    const initial = estimateSimilarity(source, target);
+    const icp = refineAlignmentICP(view.cloud, referenceCloud, initial, {
+      maxDistance: Math.max(referenceCloud.width, referenceCloud.height) / 100
+    });
+    updateView(view.id, { transform: icp.transform, rms: icp.rms, error: undefined });
+  };
+
+  const mergeViews = async () => {
+    const aligned = views.filter(view => view.cloud && view.depthSrc && view.transform);
+    if (aligned.length === 0) return;
+    setBusy(true);
+    const referenceSize = Math.max(referenceCloud.width, referenceCloud.height);
+    const merged = await onMerge(
+      aligned.map(view => ({ imageSrc: view.imageSrc, depthSrc: view.depthSrc!, transform: view.transform!, referenceSize })),
+      aligned.map(view => view.cloud!),
+      dedupeSize
+    );
+    if (!mountedRef.current) return;
+    setBusy(false);
+    if (!merged) return;
+    // Merged views now live in the app's fusion state
+    const mergedIds = new Set(aligned.map(view => view.id));
+    setViews(prev => prev.filter(view => !mergedIds.has(view.id)));
+    setActiveViewId(null);
+  };
+
+  const activeView = views.find(view => view.id === activeViewId && view.status === 'ready');
+  const alignedCount = views.filter(view => view.transform).length;
+
+  return (
+    <div className="space-y-2 p-2 rounded-lg border border-zinc-800 bg-zinc-900/40">
+      <input type="file" ref={fileInputRef} onChange={handleFile} accept="image/*" className="hidden" />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1.5 text-zinc-400">
+          <Combine size={12} />
+          <span className="text-[10px]">Fusion</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-[9px] px-2 py-0.5 rounded border bg-zinc-900 text-zinc-400 border-zinc-700 hover:text-white transition-colors flex items-center gap-1"
+        >
+          <Plus size={9} /> Add photo
+        </button>
+      </div>
+
+      {fusedCount > 0 && (
+        <div className="flex items-center justify-between text-[9px]">
+          <span className="text-emerald-400">{fusedCount + 1} views fused</span>
+          <button onClick={onUnfuse} className="text-zinc-500 hover:text-red-400 transition-colors">Remove</button>
+        </div>
+      )}
+
+      {views.length === 0 && fusedCount === 0 && (
+        <p className="text-[9px] text-zinc-500">Add photos of the same subject from other sides to merge them into this cloud.</p>
+      )}
+
+      {views.map(view => (
+        <div key={view.id} className={`flex items-center gap-2 p-1 rounded border ${view.id === activeViewId ? 'border-emerald-500/50' : 'border-zinc-800'}`}>
+          <img src={view.imageSrc} alt="View" className="w-8 h-8 rounded object-cover" />
+          <div className="flex-1 min-w-0 text-[9px]">
+            {view.status === 'depth' && <span className="text-zinc-400 flex items-center gap-1"><Loader2 size={9} className="animate-spin" /> Generating depth...</span>}
+            {view.status === 'building' && <span className="text-zinc-400 flex items-center gap-1"><Loader2 size={9} className="animate-spin" /> Building cloud...</span>}
+            {view.status === 'error' && <span className="text-red-400 truncate block">{view.error || 'Failed'}</span>}
+            {view.status === 'ready' && (
+              view.transform
+                ? <span className="text-emerald-400">Aligned · RMS {view.rms?.toFixed(2)}</span>
+                : <span className="text-zinc-500">{view.picks.length}/{PICK_COUNT} + {view.referencePicks.length}/{PICK_COUNT} points</span>
+            )}
+            {view.status === 'ready' && view.error && <span className="text-amber-400 truncate block">{view.error}</span>}
+          </div>
+          {view.status === 'ready' && (
+            <button
+              onClick={() => setActiveViewId(view.id === activeViewId ? null : view.id)}
+              className="text-zinc-500 hover:text-white transition-colors"
+              title="Pick correspondences"
+            >
+              <Crosshair size={11} />
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setViews(prev => prev.filter(v => v.id !== view.id));
+              if (activeViewId === view.id) setActiveViewId(null);
+            }}
+            className="text-zinc-600 hover:text-red-400 transition-colors"
+          >
+            <X size={11} />
+          </button>
+        </div>
+      ))}
+
+      {activeView && (
+        <div className="space-y-2">
+          <p className="text-[9px] text-zinc-500">Click the same 3 features, in the same order, on both images.</p>
+          <div className="grid grid-cols-2 gap-2">
+            <PickImage src={referenceImage} picks={activeView.referencePicks} label="Reference" onPick={(pick) => addPick(activeView, 'referencePicks', pick)} />
+            <PickImage src={activeView.imageSrc} picks={activeView.picks} label="New view" onPick={(pick) => addPick(activeView, 'picks', pick)} />
+          </div>
+          <button
+            onClick={() => alignView(activeView)}
+            disabled={activeView.picks.length < PICK_COUNT || activeView.referencePicks.length < PICK_COUNT}
+            className="w-full py-1.5 rounded text-[10px] font-medium border border-zinc-700 bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Align (3 points + ICP)
+          </button>
+        </div>
+      )}
+
+      {alignedCount > 0 && (
+        <div className="space-y-1.5 pt-1 border-t border-zinc-800">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-zinc-500 w-12">Dedupe</span>
+            <input
+              type="range" min="0.25" max="4" step="0.25"
+              value={dedupeSize}
+              onChange={(e) => setDedupeSize(parseFloat(e.target.value))}
+              className="w-full h-1 bg-zinc-600 rounded-full appearance-none cursor-pointer accent-emerald-500"
+            />
+            <span className="text-[10px] text-zinc-500 w-6 text-right">{dedupeSize}</span>
+          </div>
+          <button
+            onClick={mergeViews}
+            disabled={busy}
+            className="w-full py-1.5 rounded text-[10px] font-medium bg-emerald-500/20 text-emerald-300 border border-emerald-500/50 hover:bg-emerald-500/30 disabled:opacity-50 transition-colors flex items-center justify-center gap-1.5"
+          >
+            {busy ? <Loader2 size={10} className="animate-spin" /> : <Combine size={10} />} Merge {alignedCount + 1} views
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FusionPanel;
@@ -0,0 +1,194 @@
+import React, { useRef, useMemo, useEffect } from 'react';
+import { Canvas, useFrame, useLoader } from '@react-three/fiber';
+import { OrbitControls, Center } from '@react-three/drei';
+import * as THREE from 'three';
+import { ProcessedPointCloud, HandGestures } from '../types';
+import { buildGridMesh } from '../utils/meshBuilder';
+
+interface MeshObjectProps {
+  data: ProcessedPointCloud;
+  gestureRef: React.MutableRefObject<HandGestures>;
+  resetTrigger: number;
+  depthExaggeration: number;
+  autoRotate: boolean;
+  originalImage: string;
+  wireframe: boolean;
+}
+
+const MeshObject: React.FC<MeshObjectProps> = ({
+  data,
+  gestureRef,
+  resetTrigger,
+  depthExaggeration,
+  autoRotate,
+  originalImage,
+  wireframe
+}) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const rotVelocity = useRef({ x: 0, y: 0 });
+  const shaderRef = useRef<THREE.Shader | null>(null);
+  const currentExplosion = useRef(0);
+
+  const texture = useLoader(THREE.TextureLoader, originalImage);
+
+  useEffect(() => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.needsUpdate = true;
+  }, [texture]);
+
+  // Reset Logic
+  useEffect(() => {
+    if (resetTrigger > 0 && groupRef.current) {
+      groupRef.current.rotation.set(0, 0, 0);
+      rotVelocity.current = { x: 0, y: 0 };
+      currentExplosion.current = 0;
+    }
+  }, [resetTrigger]);
+
+  const geometry = useMemo(() => {
+    const mesh = buildGridMesh(data);
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+    geo.setAttribute('uv', new THREE.BufferAttribute(mesh.uvs, 2));
+    geo.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+    geo.computeVertexNormals();
+    geo.computeBoundingSphere();
+    return geo;
+  }, [data]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const material = useMemo(() => {
+    const mat = new THREE.MeshStandardMaterial({
+      roughness: 0.85,
+      metalness: 0.0,
+      side: THREE.DoubleSide,
+    });
+
+    // Explosion: push each vertex along its normal with a per-vertex random factor
+    mat.onBeforeCompile = (shader) => {
+      shader.uniforms.uExplosion = { value: 0 };
+
+      shader.vertexShader = `
+        uniform float uExplosion;
+
+        float random(vec2 st) {
+            return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
+        }
+      ` + shader.vertexShader;
+
+      shader.vertexShader = shader.vertexShader.replace(
+        '#include <begin_vertex>',
+        `
+        #include <begin_vertex>
+        if (uExplosion > 0.0) {
+            float rnd = random(position.xy);
+            transformed += normalize(objectNormal) * uExplosion * (10.0 + rnd * 40.0);
+        }
+        `
+      );
+      shaderRef.current = shader;
+    };
+
+    return mat;
+  }, []);
+
+  useEffect(() => {
+    material.map = texture;
+    material.wireframe = wireframe;
+    material.needsUpdate = true;
+  }, [material, texture, wireframe]);
+
+  useFrame((state, delta) => {
+    if (!groupRef.current) return;
+
+    const gestures = gestureRef.current;
+
+    if (shaderRef.current) {
+      if (gestures.isExploding) {
+        currentExplosion.current += delta * 1.5;
+      } else {
+        currentExplosion.current = THREE.MathUtils.lerp(currentExplosion.current, 0, delta * 3.0);
+      }
+      shaderRef.current.uniforms.uExplosion.value = currentExplosion.current;
+    }
+
+    const damping = 1.0 - Math.exp(-10.0 * delta);
+    const currentScale = groupRef.current.scale.x;
+    const scaleFactor = 20 / Math.max(data.width, 1);
+    let targetBaseScale = scaleFactor * (gestures.scale || 1.2);
+    const newBaseScale = THREE.MathUtils.lerp(currentScale, targetBaseScale, damping * 2.0);
+
+    groupRef.current.scale.set(newBaseScale, newBaseScale, newBaseScale * depthExaggeration);
+
+    if (gestures.isTracking) {
+      rotVelocity.current.y = THREE.MathUtils.lerp(rotVelocity.current.y, gestures.rotation.y, damping);
+      rotVelocity.current.x = THREE.MathUtils.lerp(rotVelocity.current.x, gestures.rotation.x, damping);
+      groupRef.current.rotation.y += rotVelocity.current.y * delta * 15.0;
+      groupRef.current.rotation.x += rotVelocity.current.x * delta * 15.0;
+    } else {
+      rotVelocity.current.x = THREE.MathUtils.lerp(rotVelocity.current.x, 0, damping);
+      const targetRotY = autoRotate ? 0.2 : 0;
+      rotVelocity.current.y = THREE.MathUtils.lerp(rotVelocity.current.y, targetRotY, damping * 0.5);
+      groupRef.current.rotation.y += (rotVelocity.current.y) * delta;
+      groupRef.current.rotation.x += rotVelocity.current.x * delta;
+    }
+  });
+
+  return (
+    <Center>
+      <group ref={groupRef}>
+        <mesh geometry={geometry} material={material} castShadow receiveShadow />
+      </group>
+    </Center>
+  );
+};
+
+interface MeshViewerProps {
+  data: ProcessedPointCloud | null;
+  gestureRef: React.MutableRefObject<HandGestures>;
+  resetTrigger: number;
+  depthExaggeration: number;
+  autoRotate: boolean;
+  originalImage: string | null;
+  wireframe?: boolean;
+}
+
+const MeshViewer: React.FC<MeshViewerProps> = (props) => {
+  if (!props.data || !props.originalImage) return null;
+
+  return (
+    <Canvas
+      camera={{ position: [0, 0, 80], fov: 50 }}
+      dpr={[1, 1.5]}
+      gl={{
+        toneMapping: THREE.ACESFilmicToneMapping,
+        toneMappingExposure: 1.0,
+        antialias: true
+      }}
+    >
+      <color attach="background" args={['#08080c']} />
+
+      {/* Soft studio lighting so the texture reads close to the source photo */}
+      <ambientLight intensity={0.9} />
+      <directionalLight position={[20, 30, 40]} intensity={1.4} color="#fffaee" />
+      <directionalLight position={[-30, -10, 20]} intensity={0.4} color="#cceeff" />
+
+      <React.Suspense fallback={null}>
+        <MeshObject
+          data={props.data}
+          gestureRef={props.gestureRef}
+          resetTrigger={props.resetTrigger}
+          depthExaggeration={props.depthExaggeration}
+          autoRotate={props.autoRotate}
+          originalImage={props.originalImage}
+          wireframe={props.wireframe || false}
+        />
+      </React.Suspense>
+
+      <OrbitControls makeDefault enableZoom={true} enablePan={true} rotateSpeed={0.5} zoomSpeed={0.7} />
+    </Canvas>
+  );
+};
+
+export default MeshViewer;
@@ -13,13 +13,27 @@ interface PointCloudSceneProps {
   showBackground: boolean;
   depthExaggeration: number;
   autoRotate: boolean;
+  lighting: boolean;
+  hemisphereLight: boolean;
+  additiveBlending: boolean;
+  pointBudget: number;
 }
 
+// Key light direction (world space) and hemisphere colors for lit mode
+const LIGHT_DIRECTION = new THREE.Vector3(0.4, 0.6, 1.0).normalize();
+const SKY_COLOR = new THREE.Color('#dfe8ff');
+const GROUND_COLOR = new THREE.Color('#3a2e28');
+
 const PointCloudShader = {
   vertexShader: `
     uniform float uSizeScale; 
     uniform float uTime;
     uniform float uExplosion; 
+    uniform float uLighting;
+    uniform float uHemisphere;
+    uniform vec3 uLightDir;
+    uniform vec3 uSkyColor;
+    uniform vec3 uGroundColor;
     
     varying vec3 vColor;
     varying float vAlpha;
@@ -56,6 +70,24 @@ const PointCloudShader = {
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       gl_Position = projectionMatrix * mvPosition;
 
+      // --- 2. LIGHTING (per point, in view space) ---
+      if (uLighting > 0.5) {
+        // normalMatrix accounts for the non-uniform depth exaggeration scale
+        vec3 n = normalize(normalMatrix * normal);
+        // Two-sided: flip normals facing away from the camera
+        if (dot(n, -mvPosition.xyz) < 0.0) n = -n;
+
+        vec3 l = normalize((viewMatrix * vec4(uLightDir, 0.0)).xyz);
+        float diffuse = max(dot(n, l), 0.0);
+
+        vec3 ambient = vec3(0.25);
+        if (uHemisphere > 0.5) {
+          vec3 upDir = normalize((viewMatrix * vec4(0.0, 1.0, 0.0, 0.0)).xyz);
+          ambient = mix(uGroundColor, uSkyColor, dot(n, upDir) * 0.5 + 0.5) * 0.45;
+        }
+        vColor = color * (ambient + vec3(diffuse * 0.85));
+      }
+
       vWorldPos = pos;
       float depth = -mvPosition.z;
       vDepth = depth;
@@ -101,6 +133,151 @@ const PointCloudShader = {
   `
 };
 
+// LOD streaming limits: nodes uploaded per update, and how long hidden nodes stay on the GPU
+const MAX_NODE_LOADS_PER_UPDATE = 8;
+const EVICT_AFTER_SECONDS = 5;
+// Nodes smaller than this on screen (pixels) are not refined further
+const MIN_NODE_SCREEN_SIZE = 24;
+
+interface OctreeNodesProps {
+  data: ProcessedPointCloud;
+  materialRef: React.RefObject<THREE.ShaderMaterial>;
+  pointBudget: number;
+}
+
+// Streams octree nodes below the root (which the parent always draws) in and out of the scene.
+// Every update walks the tree from the root in order of projected screen size, skipping nodes
+// outside the frustum, until the point budget is spent. Node geometries are zero-copy views
+// into the cloud arrays, uploaded on first use and disposed after a while out of view.
+const OctreeNodes: React.FC<OctreeNodesProps> = ({ data, materialRef, pointBudget }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const loaded = useRef(new Map<number, { points: THREE.Points; lastUsed: number }>());
+  const lastUpdate = useRef(-Infinity);
+  const { camera, size } = useThree();
+
+  const scratch = useMemo(() => ({
+    frustum: new THREE.Frustum(),
+    matrix: new THREE.Matrix4(),
+    box: new THREE.Box3(),
+    sphere: new THREE.Sphere(),
+    min: new THREE.Vector3(),
+    max: new THREE.Vector3()
+  }), []);
+
+  // Drop all streamed nodes when the cloud changes
+  useEffect(() => {
+    const entries = loaded.current;
+    return () => {
+      entries.forEach(({ points }) => {
+        points.removeFromParent();
+        points.geometry.dispose();
+      });
+      entries.clear();
+      lastUpdate.current = -Infinity;
+    };
+  }, [data]);
+
+  const createNodePoints = (index: number) => {
+    const node = data.octree![index];
+    const from = node.start * 3;
+    const to = (node.start + node.count) * 3;
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(data.positions.subarray(from, to), 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(data.colors.subarray(from, to), 3));
+    if (data.normals) geo.setAttribute('normal', new THREE.BufferAttribute(data.normals.subarray(from, to), 3));
+    const half = node.size / 2;
+    geo.boundingSphere = new THREE.Sphere(
+      new THREE.Vector3(node.min[0] + half, node.min[1] + half, node.min[2] + half),
+      half * Math.sqrt(3)
+    );
+    return new THREE.Points(geo, materialRef.current!);
+  };
+
+  useFrame((state) => {
+    const group = groupRef.current;
+    const nodes = data.octree;
+    if (!group || !nodes || !materialRef.current) return;
+
+    const now = state.clock.elapsedTime;
+    if (now - lastUpdate.current < 0.1) return;
+    lastUpdate.current = now;
+
+    group.updateWorldMatrix(true, false);
+    scratch.frustum.setFromProjectionMatrix(
+      scratch.matrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+    );
+    const fov = (camera as THREE.PerspectiveCamera).fov ?? 60;
+    const pixelsPerUnit = size.height / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+
+    // Projected size in pixels, or -1 when culled / too small to refine
+    const screenSize = (index: number) => {
+      const node = nodes[index];
+      scratch.min.set(node.min[0], node.min[1], node.min[2]);
+      scratch.max.set(node.min[0] + node.size, node.min[1] + node.size, node.min[2] + node.size);
+      scratch.box.set(scratch.min, scratch.max).applyMatrix4(group.matrixWorld);
+      if (!scratch.frustum.intersectsBox(scratch.box)) return -1;
+      scratch.box.getBoundingSphere(scratch.sphere);
+      const distance = Math.max(1e-3, scratch.sphere.center.distanceTo(camera.position) - scratch.sphere.radius);
+      return (scratch.sphere.radius / distance) * pixelsPerUnit;
+    };
+
+    const selected: number[] = [];
+    let budget = pointBudget - nodes[0].count;
+    const queue: { index: number; priority: number }[] = [];
+    const enqueueChildren = (index: number) => {
+      for (const child of nodes[index].children) {
+        if (child < 0) continue;
+        const priority = screenSize(child);
+        if (priority >= MIN_NODE_SCREEN_SIZE) queue.push({ index: child, priority });
+      }
+    };
+    enqueueChildren(0);
+
+    while (queue.length > 0 && budget > 0) {
+      let best = 0;
+      for (let i = 1; i < queue.length; i++) {
+        if (queue[i].priority > queue[best].priority) best = i;
+      }
+      const { index } = queue[best];
+      queue[best] = queue[queue.length - 1];
+      queue.pop();
+
+      if (nodes[index].count > budget) continue;
+      budget -= nodes[index].count;
+      selected.push(index);
+      enqueueChildren(index);
+    }
+
+    // Stream in the most important missing nodes first
+    const visible = new Set<number>();
+    let loads = 0;
+    for (const index of selected) {
+      let entry = loaded.current.get(index);
+      if (!entry) {
+        if (loads >= MAX_NODE_LOADS_PER_UPDATE) continue;
+        entry = { points: createNodePoints(index), lastUsed: now };
+        loaded.current.set(index, entry);
+        loads++;
+      }
+      entry.lastUsed = now;
+      visible.add(index);
+      if (!entry.points.parent) group.add(entry.points);
+    }
+
+    loaded.current.forEach((entry, index) => {
+      if (visible.has(index)) return;
+      entry.points.removeFromParent();
+      if (now - entry.lastUsed > EVICT_AFTER_SECONDS) {
+        entry.points.geometry.dispose();
+        loaded.current.delete(index);
+      }
+    });
+  });
+
+  return <group ref={groupRef} />;
+};
+
 // Background Image Plane Component
 const BackgroundPlane = ({ imageSrc, visible, width, height, depthOffset }: { imageSrc: string, visible: boolean, width: number, height: number, depthOffset: number }) => {
   const texture = useLoader(THREE.TextureLoader, imageSrc);
@@ -129,7 +306,11 @@ const PointCloudObject: React.FC<PointCloudSceneProps> = ({
   originalImage,
   showBackground,
   depthExaggeration,
-  autoRotate
+  autoRotate,
+  lighting,
+  hemisphereLight,
+  additiveBlending,
+  pointBudget
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const materialRef = useRef<THREE.ShaderMaterial>(null);
@@ -166,10 +347,22 @@ const PointCloudObject: React.FC<PointCloudSceneProps> = ({
     }
   }, [pointSize, pixelRatio, size.height]);
 
+  // Lighting toggles (only meaningful when the cloud carries normals)
+  useEffect(() => {
+    if (materialRef.current) {
+        materialRef.current.uniforms.uLighting.value = lighting && !!data.normals ? 1 : 0;
+        materialRef.current.uniforms.uHemisphere.value = hemisphereLight ? 1 : 0;
+        materialRef.current.uniformsNeedUpdate = true;
+    }
+  }, [lighting, hemisphereLight, data.normals]);
+
   const geometry = useMemo(() => {
+    // With an octree only the root node (coarsest level) lives here; OctreeNodes streams the rest
+    const end = (data.octree ? data.octree[0].count : data.count) * 3;
     const geo = new THREE.BufferGeometry();
-    geo.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
-    geo.setAttribute('color', new THREE.BufferAttribute(data.colors, 3));
+    geo.setAttribute('position', new THREE.BufferAttribute(data.positions.subarray(0, end), 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(data.colors.subarray(0, end), 3));
+    if (data.normals) geo.setAttribute('normal', new THREE.BufferAttribute(data.normals.subarray(0, end), 3));
     geo.computeBoundingSphere(); 
     return geo;
   }, [data]);
@@ -235,6 +428,11 @@ const PointCloudObject: React.FC<PointCloudSceneProps> = ({
     uSizeScale: { value: pointSize * pixelRatio * size.height * 0.5 },
     uTime: { value: 0 },
     uExplosion: { value: 0 },
+    uLighting: { value: lighting && !!data.normals ? 1 : 0 },
+    uHemisphere: { value: hemisphereLight ? 1 : 0 },
+    uLightDir: { value: LIGHT_DIRECTION },
+    uSkyColor: { value: SKY_COLOR },
+    uGroundColor: { value: GROUND_COLOR },
   }), []); 
 
   return (
@@ -248,12 +446,16 @@ const PointCloudObject: React.FC<PointCloudSceneProps> = ({
             fragmentShader={PointCloudShader.fragmentShader}
             transparent={true}
             depthWrite={true}
-            blending={THREE.AdditiveBlending} 
+            blending={additiveBlending ? THREE.AdditiveBlending : THREE.NormalBlending} 
             vertexColors={true}
             uniforms={uniforms}
           />
         </points>
 
+        {data.octree && (
+            <OctreeNodes data={data} materialRef={materialRef} pointBudget={pointBudget} />
+        )}
+
         {originalImage && (
             <React.Suspense fallback={null}>
                 <BackgroundPlane 
@@ -288,6 +490,10 @@ interface PointCloudViewerProps {
   showBackground: boolean;
   depthExaggeration: number;
   autoRotate: boolean;
+  lighting: boolean;
+  hemisphereLight: boolean;
+  additiveBlending: boolean;
+  pointBudget: number;
 }
 
 const PointCloudViewer: React.FC<PointCloudViewerProps> = (props) => {
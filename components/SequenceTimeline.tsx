@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+
+interface SequenceTimelineProps {
+  frameCount: number;
+  index: number;
+  fps: number;
+  time: number; // seconds of the current frame
+  canPlay: boolean;
+  onChange: (index: number) => void;
+}
+
+// Scrubber + play/pause for a video sequence; playback loops at the extraction rate
+const SequenceTimeline: React.FC<SequenceTimelineProps> = ({ frameCount, index, fps, time, canPlay, onChange }) => {
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!canPlay) setPlaying(false);
+  }, [canPlay]);
+
+  // One timeout per shown frame, so playback always advances from the current index
+  useEffect(() => {
+    if (!playing || frameCount < 2) return;
+    const timer = setTimeout(() => onChange((index + 1) % frameCount), 1000 / fps);
+    return () => clearTimeout(timer);
+  }, [playing, index, frameCount, fps]);
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-zinc-900/80 backdrop-blur-md rounded-full border border-white/10 shadow-xl">
+      <button
+        onClick={() => setPlaying(!playing)}
+        disabled={!canPlay}
+        className="text-white hover:text-emerald-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title={canPlay ? (playing ? "Pause" : "Play") : "Generate depth for all frames to play"}
+      >
+        {playing ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <input
+        type="range" min="0" max={frameCount - 1} step="1" value={index}
+        onChange={(e) => {
+          setPlaying(false);
+          onChange(parseInt(e.target.value));
+        }}
+        className="w-64 h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400"
+      />
+      <span className="text-[10px] text-zinc-400 font-mono w-24 text-right">
+        {index + 1}/{frameCount} · {time.toFixed(1)}s
+      </span>
+    </div>
+  );
+};
+
+export default SequenceTimeline;
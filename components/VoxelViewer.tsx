@@ -1,8 +1,10 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 import { Canvas, useFrame, useThree, useLoader } from '@react-three/fiber';
 import { OrbitControls, Center } from '@react-three/drei';
 import * as THREE from 'three';
-import { ProcessedPointCloud, HandGestures } from '../types';
+import { ProcessedPointCloud, HandGestures, VoxelFillMode, VoxelMaterial } from '../types';
+import { buildVoxelGrid, greedyMeshVoxelGrid } from '../utils/voxelGrid';
+import { VOXEL_MATERIALS, VoxelLayer } from '../utils/voxelScene';
 
 // Background Image Plane Component (mismo que en PointCloudViewer)
 const BackgroundPlane = ({ imageSrc, visible, width, height, depthOffset }: { imageSrc: string, visible: boolean, width: number, height: number, depthOffset: number }) => {
@@ -24,138 +26,178 @@ const BackgroundPlane = ({ imageSrc, visible, width, height, depthOffset }: { im
   );
 };
 
+// Surface settings per scene material; 'plastic' is the look of depth-built models
+const MATERIAL_PARAMS: Record<VoxelMaterial, THREE.MeshStandardMaterialParameters> = {
+  plastic: { roughness: 0.2, metalness: 0.1 },
+  matte: { roughness: 0.9, metalness: 0 },
+  metal: { roughness: 0.25, metalness: 0.9 },
+  glass: { roughness: 0.05, metalness: 0, transparent: true, opacity: 0.45, depthWrite: false },
+  emissive: { roughness: 0.5, metalness: 0 }
+};
+
 interface VoxelObjectProps {
-  data: ProcessedPointCloud;
+  data: ProcessedPointCloud | null;
+  layers: VoxelLayer[] | null;
   gestureRef: React.MutableRefObject<HandGestures>;
   depthExaggeration: number;
   autoRotate: boolean;
   voxelSize: number;
   originalImage: string | null;
   showBackground: boolean;
+  fillMode: VoxelFillMode;
 }
 
 const VoxelObject: React.FC<VoxelObjectProps> = ({ 
   data, 
+  layers,
   gestureRef, 
   depthExaggeration,
   autoRotate,
   voxelSize,
   originalImage,
-  showBackground
+  showBackground,
+  fillMode
 }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
   const groupRef = useRef<THREE.Group>(null);
   const rotVelocity = useRef({ x: 0, y: 0 });
-  const dummy = useMemo(() => new THREE.Object3D(), []);
   
-  const shaderRef = useRef<THREE.Shader>(null);
+  // Compiled shaders by material, to drive the explosion uniforms
+  const shadersRef = useRef<Partial<Record<VoxelMaterial, THREE.Shader>>>({});
   const currentExplosion = useRef(0);
 
   // Calculate background Z position
   const backgroundZ = useMemo(() => {
+    if (!data) return 0;
     const depthScale = Math.max(data.width, data.height) * 0.5;
     return -(depthScale * 0.5) - 20; 
-  }, [data.width, data.height]);
+  }, [data]);
 
-  // Initialize Voxels
+  // Exaggeration changes the voxelisation itself, so the grid follows the slider once it settles
+  const [gridExaggeration, setGridExaggeration] = useState(depthExaggeration);
   useEffect(() => {
-    if (!meshRef.current) return;
-
-    const count = data.count;
-    meshRef.current.count = count;
+    const timer = setTimeout(() => setGridExaggeration(depthExaggeration), 150);
+    return () => clearTimeout(timer);
+  }, [depthExaggeration]);
 
-    for (let i = 0; i < count; i++) {
-        const x = data.positions[i * 3];
-        const y = data.positions[i * 3 + 1];
-        const z = data.positions[i * 3 + 2] * depthExaggeration;
+  // Depth-built grid; scenes bring their own layers and never read the exaggeration
+  const dataGrid = useMemo(
+    () => data && !layers ? buildVoxelGrid(data, fillMode, gridExaggeration) : null,
+    [data, layers, fillMode, gridExaggeration]
+  );
 
-        const r = data.colors[i * 3];
-        const g = data.colors[i * 3 + 1];
-        const b = data.colors[i * 3 + 2];
+  // Voxel grids (one per material for scenes) -> greedy-meshed geometry (one draw call per
+  // material, only visible faces)
+  const meshes = useMemo(() => {
+    const grids = layers || (dataGrid ? [{ material: 'plastic' as VoxelMaterial, grid: dataGrid }] : []);
+    return grids.map(({ material, grid }) => {
+      const mesh = greedyMeshVoxelGrid(grid);
 
-        dummy.position.set(x, y, z);
-        dummy.updateMatrix();
-        meshRef.current.setMatrixAt(i, dummy.matrix);
-        meshRef.current.setColorAt(i, new THREE.Color(r, g, b));
-    }
+      const geo = new THREE.BufferGeometry();
+      geo.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+      geo.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+      geo.setAttribute('color', new THREE.BufferAttribute(mesh.colors, 3));
+      geo.setAttribute('aFaceCenter', new THREE.BufferAttribute(mesh.faceCenters, 3));
+      geo.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+      geo.computeBoundingSphere();
+      return { material, geometry: geo, extent: Math.max(grid.sizeX, grid.sizeY, grid.sizeZ) };
+    });
+  }, [layers, dataGrid]);
 
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+  useEffect(() => () => meshes.forEach(mesh => mesh.geometry.dispose()), [meshes]);
 
-  }, [data, depthExaggeration, dummy]); 
+  // Size the model is scaled from: the image width, or the largest scene dimension
+  const extent = data ? data.width : Math.max(1, ...meshes.map(mesh => mesh.extent));
 
-  const customMaterial = useMemo(() => {
-    // Shinier material for "Lego" aesthetic that catches light better
-    const mat = new THREE.MeshStandardMaterial({
-      roughness: 0.2, 
-      metalness: 0.1,
-    });
+  const materials = useMemo(() => {
+    const byKind = {} as Record<VoxelMaterial, THREE.MeshStandardMaterial>;
+    VOXEL_MATERIALS.forEach(kind => {
+      // Plastic is the shiny "Lego" look that catches light well; scenes may use the others
+      const mat = new THREE.MeshStandardMaterial({
+        ...MATERIAL_PARAMS[kind],
+        vertexColors: true,
+      });
+      // The patched shaders differ per material, so they must not share a cached program
+      mat.customProgramCacheKey = () => `voxel-${kind}`;
 
-    mat.onBeforeCompile = (shader) => {
-      shader.uniforms.uExplosion = { value: 0 };
-      shader.uniforms.uTime = { value: 0 };
+      mat.onBeforeCompile = (shader) => {
+        shader.uniforms.uExplosion = { value: 0 };
+        shader.uniforms.uTime = { value: 0 };
 
-      shader.vertexShader = `
-        uniform float uExplosion;
-        uniform float uTime;
+        shader.vertexShader = `
+          uniform float uExplosion;
+          uniform float uTime;
+          attribute vec3 aFaceCenter;
         
-        float random(vec2 st) {
-            return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
-        }
+          float random(vec2 st) {
+              return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
+          }
         
-        mat3 rotateY(float angle) {
-            float s = sin(angle);
-            float c = cos(angle);
-            return mat3(c, 0, s, 0, 1, 0, -s, 0, c);
-        }
-        mat3 rotateX(float angle) {
-            float s = sin(angle);
-            float c = cos(angle);
-            return mat3(1, 0, 0, 0, c, -s, 0, s, c);
-        }
-      ` + shader.vertexShader;
+          mat3 rotateY(float angle) {
+              float s = sin(angle);
+              float c = cos(angle);
+              return mat3(c, 0, s, 0, 1, 0, -s, 0, c);
+          }
+          mat3 rotateX(float angle) {
+              float s = sin(angle);
+              float c = cos(angle);
+              return mat3(1, 0, 0, 0, c, -s, 0, s, c);
+          }
+        ` + shader.vertexShader;
 
-      shader.vertexShader = shader.vertexShader.replace(
-        '#include <begin_vertex>',
-        `
-        #include <begin_vertex>
-        if (uExplosion > 0.0) {
-            vec3 instancePos = vec3(instanceMatrix[3][0], instanceMatrix[3][1], instanceMatrix[3][2]);
-            float rnd = random(instancePos.xy);
-            vec3 dir = normalize(instancePos);
-            dir.x += (random(instancePos.yz) - 0.5) * 0.5;
-            dir.y += (random(instancePos.xz) - 0.5) * 0.5;
-            vec3 offset = dir * uExplosion * 50.0;
-            transformed += offset;
-            float angle = uExplosion * 10.0 * rnd;
-            transformed = rotateY(angle) * rotateX(angle * 0.5) * transformed;
+        shader.vertexShader = shader.vertexShader.replace(
+          '#include <begin_vertex>',
+          `
+          #include <begin_vertex>
+          if (uExplosion > 0.0) {
+              // Each merged face flies off as a rigid panel, spinning around its own center
+              float rnd = random(aFaceCenter.xy);
+              vec3 dir = normalize(aFaceCenter + vec3(0.0001));
+              dir.x += (random(aFaceCenter.yz) - 0.5) * 0.5;
+              dir.y += (random(aFaceCenter.xz) - 0.5) * 0.5;
+              vec3 offset = dir * uExplosion * 50.0;
+              float angle = uExplosion * 10.0 * rnd;
+              transformed = aFaceCenter + rotateY(angle) * rotateX(angle * 0.5) * (transformed - aFaceCenter) + offset;
+          }
+          `
+        );
+        if (kind === 'emissive') {
+          // Glows in its own color
+          shader.fragmentShader = shader.fragmentShader.replace(
+            '#include <emissivemap_fragment>',
+            `
+            #include <emissivemap_fragment>
+            totalEmissiveRadiance += vColor.rgb * 0.8;
+            `
+          );
         }
-        `
-      );
-      shaderRef.current = shader;
-    };
+        shadersRef.current[kind] = shader;
+      };
 
-    return mat;
+      byKind[kind] = mat;
+    });
+    return byKind;
   }, []);
 
+  useEffect(() => () => Object.values(materials).forEach(mat => mat.dispose()), [materials]);
+
   useFrame((state, delta) => {
     if (!groupRef.current) return;
 
     const gestures = gestureRef.current;
     
-    if (shaderRef.current) {
-        if (gestures.isExploding) {
-            currentExplosion.current += delta * 1.5;
-        } else {
-            currentExplosion.current = THREE.MathUtils.lerp(currentExplosion.current, 0, delta * 3.0);
-        }
-        shaderRef.current.uniforms.uExplosion.value = currentExplosion.current;
-        shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+    if (gestures.isExploding) {
+        currentExplosion.current += delta * 1.5;
+    } else {
+        currentExplosion.current = THREE.MathUtils.lerp(currentExplosion.current, 0, delta * 3.0);
     }
+    Object.values(shadersRef.current).forEach(shader => {
+        shader.uniforms.uExplosion.value = currentExplosion.current;
+        shader.uniforms.uTime.value = state.clock.elapsedTime;
+    });
 
     const damping = 1.0 - Math.exp(-10.0 * delta);
     const currentScale = groupRef.current.scale.x; 
-    const scaleFactor = 15 / Math.max(data.width, 1); 
+    const scaleFactor = 15 / Math.max(extent, 1); 
     let targetBaseScale = scaleFactor * (gestures.scale || 1.0);
     const newBaseScale = THREE.MathUtils.lerp(currentScale, targetBaseScale, damping * 2.0);
     
@@ -178,18 +220,18 @@ const VoxelObject: React.FC<VoxelObjectProps> = ({
   return (
     <Center>
       <group ref={groupRef}>
-        <instancedMesh 
-            ref={meshRef} 
-            args={[undefined, undefined, data.count]} 
-            castShadow 
-            receiveShadow 
-            material={customMaterial}
-        >
-            <boxGeometry args={[0.92, 0.92, 0.92]} />
-        </instancedMesh>
+        {meshes.map(mesh => (
+            <mesh 
+                key={mesh.material}
+                geometry={mesh.geometry} 
+                material={materials[mesh.material]} 
+                castShadow={mesh.material !== 'glass'}
+                receiveShadow 
+            />
+        ))}
 
         {/* Background Plane - igual que en PointCloudViewer */}
-        {originalImage && (
+        {data && originalImage && (
             <React.Suspense fallback={null}>
                 <BackgroundPlane 
                     imageSrc={originalImage} 
@@ -207,6 +249,8 @@ const VoxelObject: React.FC<VoxelObjectProps> = ({
 
 interface VoxelViewerProps {
   data: ProcessedPointCloud | null;
+  // Structured scene to show instead of data
+  layers?: VoxelLayer[] | null;
   gestureRef: React.MutableRefObject<HandGestures>;
   resetTrigger: number;
   depthExaggeration: number;
@@ -214,10 +258,11 @@ interface VoxelViewerProps {
   voxelDensity: number;
   originalImage?: string | null;
   showBackground?: boolean;
+  fillMode?: VoxelFillMode;
 }
 
 const VoxelViewer: React.FC<VoxelViewerProps> = (props) => {
-  if (!props.data) return null;
+  if (!props.data && !props.layers) return null;
 
   return (
     <Canvas 
@@ -264,13 +309,15 @@ const VoxelViewer: React.FC<VoxelViewerProps> = (props) => {
       />
 
       <VoxelObject 
-        data={props.data}
+        data={props.layers ? null : props.data}
+        layers={props.layers || null}
         gestureRef={props.gestureRef}
         depthExaggeration={props.depthExaggeration}
         autoRotate={props.autoRotate}
         voxelSize={1.0}
         originalImage={props.originalImage || null}
         showBackground={props.showBackground || false}
+        fillMode={props.fillMode || 'gaps'}
       />
       
       <OrbitControls makeDefault enableZoom={true} enablePan={true} rotateSpeed={0.5} zoomSpeed={0.7} />
@@ -0,0 +1,151 @@
+import { createAbortError } from "../utils/cloudBuilderClient";
+
+// Typed failures from depth / scene providers. Providers throw these so the UI can react to
+// the cause (re-ask for a key, wait for quota, change the photo) instead of parsing messages.
+
+export type ProviderErrorKind = 'auth' | 'quota' | 'safety' | 'no-image' | 'network' | 'timeout' | 'malformed';
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    // Worth trying the same request again after a pause
+    readonly retryable: boolean;
+
+    constructor(kind: ProviderErrorKind, message: string, retryable: boolean, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.retryable = retryable;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+// Missing, invalid or unauthorised key (401 / 403)
+export class AuthError extends ProviderError {
+    constructor(message = 'The API key was rejected', cause?: unknown) {
+        super('auth', message, false, cause);
+        this.name = 'AuthError';
+    }
+}
+
+// Rate limit or exhausted quota (429). retryAfterMs comes from the server's RetryInfo when present
+export class QuotaError extends ProviderError {
+    readonly retryAfterMs?: number;
+
+    constructor(message = 'Quota exceeded', retryAfterMs?: number, cause?: unknown) {
+        super('quota', message, true, cause);
+        this.name = 'QuotaError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// The prompt or the output was blocked by a safety filter
+export class SafetyBlockedError extends ProviderError {
+    readonly finishReason: string;
+
+    constructor(finishReason: string, cause?: unknown) {
+        super('safety', `Response blocked (${finishReason})`, false, cause);
+        this.name = 'SafetyBlockedError';
+        this.finishReason = finishReason;
+    }
+}
+
+// The model answered without the image it was asked for (usually transient)
+export class NoImageError extends ProviderError {
+    constructor(message = 'No image data returned', cause?: unknown) {
+        super('no-image', message, true, cause);
+        this.name = 'NoImageError';
+    }
+}
+
+// Connection failures and 5xx responses
+export class NetworkError extends ProviderError {
+    constructor(message = 'Network request failed', cause?: unknown) {
+        super('network', message, true, cause);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends ProviderError {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number, cause?: unknown) {
+        super('timeout', `No response after ${Math.round(timeoutMs / 1000)}s`, true, cause);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+// A response arrived but could not be used (bad request, unparsable or empty output)
+export class MalformedResponseError extends ProviderError {
+    constructor(message = 'Malformed response', cause?: unknown) {
+        super('malformed', message, false, cause);
+        this.name = 'MalformedResponseError';
+    }
+}
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+    // Aborting stops waiting between attempts; the attempt itself must honour the signal too
+    signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError('Generation cancelled'));
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError('Generation cancelled'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+// Runs fn, retrying retryable ProviderErrors with exponential backoff and full jitter.
+// A server-provided retry delay (quota) takes precedence over the computed one.
+export const withRetry = async <T>(
+    fn: (attempt: number) => Promise<T>,
+    { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, signal }: RetryOptions = {}
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            if (!(error instanceof ProviderError) || !error.retryable || attempt >= retries || signal?.aborted) throw error;
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delayMs = error instanceof QuotaError && error.retryAfterMs !== undefined
+                ? Math.min(maxDelayMs, error.retryAfterMs)
+                : backoff;
+            onRetry?.(error, attempt + 1, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+// Rejects with TimeoutError if the promise hasn't settled within ms
+export const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Short, actionable status line for any error thrown by a provider
+export const describeProviderError = (error: unknown): string => {
+    if (error instanceof AuthError) return 'Access denied. Check or re-select your API key.';
+    if (error instanceof QuotaError) {
+        const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s` : ' Wait a minute';
+        return `Quota or rate limit reached.${wait}, or switch to a key with more quota.`;
+    }
+    if (error instanceof SafetyBlockedError) return `Blocked by safety filters (${error.finishReason}). Try a different photo.`;
+    if (error instanceof NoImageError) return 'The model returned no image. Try again or use another depth provider.';
+    if (error instanceof NetworkError) return 'Network error. Check your connection and try again.';
+    if (error instanceof TimeoutError) return `The request timed out (${Math.round(error.timeoutMs / 1000)}s). Try again.`;
+    if (error instanceof MalformedResponseError) return `Unusable response: ${error.message}.`;
+    return 'Error: ' + (error instanceof Error ? error.message : 'Unknown error');
+};
@@ -0,0 +1,56 @@
+import {
+    generateDepthMap,
+    generateVoxelScene,
+    generateVoxelSceneData,
+    DEPTH_PROMPT_VERSION,
+    SCENE_PROMPT_VERSION,
+    STRUCTURED_SCENE_PROMPT_VERSION
+} from "./geminiService";
+import { DepthProvider, ProviderSettingField, ProviderSettings, SceneProvider } from "./providers";
+import { MalformedResponseError } from "./errors";
+import { ValidatedDepth, validateDepthMap } from "../utils/depthValidation";
+
+const GEMINI_FIELDS: ProviderSettingField[] = [
+    { key: 'apiKey', label: 'API Key', type: 'password', placeholder: 'Paste Gemini API Key...' }
+];
+
+// A manual key selects the Pro models; otherwise the environment / AI Studio key is used
+const hasManualKey = (settings: ProviderSettings) => !!settings.apiKey && settings.apiKey.trim().length > 0;
+
+const isConfigured = async (settings: ProviderSettings) =>
+    hasManualKey(settings) || !!process.env.API_KEY || !!(window.aistudio && await window.aistudio.hasSelectedApiKey());
+
+export const geminiDepthProvider: DepthProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    requiresNetwork: true,
+    settingsFields: GEMINI_FIELDS,
+    isConfigured,
+    describeModel: (settings) => hasManualKey(settings) ? 'Gemini 3 Pro Image' : 'Gemini 2.0 Flash',
+    promptVersion: DEPTH_PROMPT_VERSION,
+    // Maps that can't be fixed up (flat, a photo, rotated) are retried with the fallback model.
+    // The check of the accepted map is returned with it.
+    generateDepth: async (imageSrc, settings, signal) => {
+        let validation: ValidatedDepth | undefined;
+        const result = await generateDepthMap(imageSrc.split(',')[1] || imageSrc, settings.apiKey, signal, async (depthBase64) => {
+            validation = await validateDepthMap(`data:image/png;base64,${depthBase64}`, imageSrc);
+            if (!validation.usable) throw new MalformedResponseError(validation.reason);
+        });
+        return { ...result, validation };
+    }
+};
+
+export const geminiSceneProvider: SceneProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    requiresNetwork: true,
+    settingsFields: GEMINI_FIELDS,
+    isConfigured,
+    describeModel: (settings) => hasManualKey(settings) ? 'Gemini 3 Pro' : 'Gemini 2.5 Flash',
+    promptVersion: SCENE_PROMPT_VERSION,
+    generateScene: (imageSrc, settings, onThought, signal) => generateVoxelScene(imageSrc, settings.apiKey, onThought, signal),
+    structured: {
+        promptVersion: STRUCTURED_SCENE_PROMPT_VERSION,
+        generate: (imageSrc, settings, onThought, signal) => generateVoxelSceneData(imageSrc, settings.apiKey, onThought, signal)
+    }
+};
@@ -1,4 +1,122 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { constructHtml } from "./sceneTemplate";
+import { DepthMapResult, SceneGenerationResult, StructuredSceneResult } from "./providers";
+import { MAX_SCENE_COLORS, MAX_SCENE_SIZE, VOXEL_MATERIALS, validateVoxelScene } from "../utils/voxelScene";
+import {
+    ProviderError,
+    AuthError,
+    QuotaError,
+    SafetyBlockedError,
+    NoImageError,
+    NetworkError,
+    MalformedResponseError,
+    withRetry,
+    withTimeout
+} from "./errors";
+import { createAbortError, isAbortError } from "../utils/cloudBuilderClient";
+
+// Per-attempt limits; scene generation streams long "thinking" output so it gets more time
+const DEPTH_TIMEOUT_MS = 120000;
+const SCENE_TIMEOUT_MS = 300000;
+const MAX_RETRIES = 2;
+
+// finishReason / blockReason values that mean the content was filtered rather than lost
+const BLOCKED_REASONS = new Set([
+    'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII',
+    'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION'
+]);
+
+// Maps SDK / fetch failures onto the typed hierarchy. Unknown errors pass through unchanged.
+export const classifyGeminiError = (error: unknown): unknown => {
+    if (error instanceof ProviderError || isAbortError(error)) return error;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof ApiError) {
+        const status = error.status;
+        if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+            return new AuthError(status === 403 ? 'Permission denied for this API key' : 'The API key is invalid', error);
+        }
+        if (status === 429) {
+            // RetryInfo arrives in the JSON body as e.g. "retryDelay": "34s"
+            const delay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+            return new QuotaError('Quota or rate limit exceeded', delay ? parseFloat(delay[1]) * 1000 : undefined, error);
+        }
+        if (status >= 500) return new NetworkError(`Gemini service error (${status})`, error);
+        return new MalformedResponseError(`Request rejected (${status})`, error);
+    }
+
+    if (/PERMISSION_DENIED|UNAUTHENTICATED/.test(message)) return new AuthError('Permission denied for this API key', error);
+    if (/RESOURCE_EXHAUSTED/.test(message)) return new QuotaError('Quota or rate limit exceeded', undefined, error);
+    // fetch() rejects with a TypeError when the request never reaches the server
+    if (error instanceof TypeError || /Failed to fetch|fetch failed|NetworkError/i.test(message)) return new NetworkError(message, error);
+    return error;
+};
+
+// Classified, time-limited and retried call to the API. Once the signal fires every failure
+// is reported as an AbortError, whatever the SDK or stream threw.
+// run gets a per-attempt signal for the SDK: it follows signal and also fires when the attempt
+// times out or fails, so an abandoned request stops streaming before the retry starts.
+const callGemini = <T>(
+    run: (attemptSignal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    label: string,
+    signal?: AbortSignal,
+    onRetry?: (message: string) => void
+): Promise<T> => withRetry(async () => {
+    const attempt = new AbortController();
+    const forwardAbort = () => attempt.abort();
+    if (signal?.aborted) attempt.abort();
+    else signal?.addEventListener('abort', forwardAbort, { once: true });
+    try {
+        return await withTimeout(run(attempt.signal), timeoutMs);
+    } catch (error) {
+        if (signal?.aborted) throw createAbortError('Generation cancelled');
+        throw classifyGeminiError(error);
+    } finally {
+        signal?.removeEventListener('abort', forwardAbort);
+        attempt.abort();
+    }
+}, {
+    retries: MAX_RETRIES,
+    signal,
+    onRetry: (error, attempt, delayMs) => {
+        console.warn(`${label} attempt ${attempt} failed (${error.kind}), retrying in ${Math.round(delayMs)}ms`, error);
+        onRetry?.(`${error.message}. Retrying in ${Math.ceil(delayMs / 1000)}s...`);
+    }
+});
+
+// Collects the answer text of a streamed response, forwarding thought parts to onThought
+const readStream = async (
+    response: AsyncGenerator<GenerateContentResponse>,
+    onThought?: (thought: string) => void,
+    signal?: AbortSignal
+): Promise<{ text: string; blockReason?: string }> => {
+    let text = "";
+    let blockReason: string | undefined;
+    for await (const chunk of response) {
+        if (signal?.aborted) break;
+        const candidates = chunk.candidates;
+        blockReason = chunk.promptFeedback?.blockReason || blockReason;
+        const finishReason = candidates?.[0]?.finishReason;
+        if (finishReason && BLOCKED_REASONS.has(finishReason)) blockReason = finishReason;
+        for (const part of candidates?.[0]?.content?.parts || []) {
+            if (part.thought) {
+                if (part.text && onThought) onThought(part.text);
+            } else if (part.text) {
+                text += part.text;
+            }
+        }
+    }
+    if (signal?.aborted) throw createAbortError('Generation cancelled');
+    return { text, blockReason };
+};
+
+// Part of the result cache key: bump when the matching prompt changes
+export const SCENE_PROMPT_VERSION = 'voxel-1';
+export const STRUCTURED_SCENE_PROMPT_VERSION = 'voxel-json-1';
+export const DEPTH_PROMPT_VERSION = 'depth-1';
+
+const DEPTH_PROMPT = `Generate a high-fidelity grayscale depth map image. White = close, Black = far. Smooth gradients. Output at maximum resolution.`;
 
 const VOXEL_PROMPT = `You are an expert Three.js developer creating a BEAUTIFUL voxel art scene.
 GOAL: Create a visually stunning, COLORFUL voxel scene inspired by the image.
@@ -112,57 +230,16 @@ const cleanCode = (text: string): string => {
   return cleaned.trim();
 };
 
-// HTML Template using Three.js r128 (proper UMD support)
-const constructHtml = (jsCode: string) => `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <style>body { margin: 0; overflow: hidden; background-color: #1a1a2e; }</style>
-</head>
-<body>
-    <div id="info" style="position:absolute; top:10px; left:10px; color:white; font-family:monospace; font-size:10px; pointer-events:none; z-index:10;">Generated Scene</div>
-    
-    <script src="https://cdnjs.cloudflare.com/ajax/libs/three.js/r128/three.min.js"></script>
-    <script src="https://cdn.jsdelivr.net/npm/three@0.128.0/examples/js/controls/OrbitControls.js"></script>
-    
-    <script>
-        window.addEventListener('error', (e) => {
-            const el = document.createElement('div');
-            el.style.cssText = 'position:absolute;top:50%;left:50%;transform:translate(-50%,-50%);color:#ff5555;background:rgba(0,0,0,0.9);padding:20px;z-index:999;font-family:monospace;border:1px solid #ff5555;border-radius:8px;max-width:80%;word-wrap:break-word;';
-            el.innerText = 'Scene Error: ' + e.message;
-            document.body.appendChild(el);
-        });
-
-        try {
-            ${jsCode}
-        } catch (err) {
-            console.error("AI Code Execution Error:", err);
-            const el = document.createElement('div');
-            el.style.cssText = 'position:absolute;top:50%;left:50%;transform:translate(-50%,-50%);color:#ff5555;background:rgba(0,0,0,0.9);padding:20px;z-index:999;font-family:monospace;border:1px solid #ff5555;border-radius:8px;max-width:80%;word-wrap:break-word;';
-            el.innerText = 'Execution Error: ' + err.message;
-            document.body.appendChild(el);
-        }
-    </script>
-</body>
-</html>
-`;
-
-export interface SceneGenerationResult {
-    html: string;
-    modelUsed: string;
-}
-
 export const generateVoxelScene = async (
     imageBase64: string, 
     manualApiKey?: string, 
-    onThought?: (thought: string) => void
+    onThought?: (thought: string) => void,
+    signal?: AbortSignal
 ): Promise<SceneGenerationResult> => {
     const hasManualKey = !!manualApiKey && manualApiKey.trim().length > 0;
     const finalApiKey = hasManualKey ? manualApiKey : process.env.API_KEY;
     
-    if (!finalApiKey) throw new Error("API Key required");
+    if (!finalApiKey) throw new AuthError("No API key configured");
 
     // MODELOS CORRECTOS (verificados en documentación Google):
     // Con API key manual → gemini-3-pro-preview
@@ -178,11 +255,9 @@ export const generateVoxelScene = async (
 
     const runModel = async (modelName: string): Promise<string> => {
         const isGemini3 = modelName.includes('gemini-3');
-        const config: any = {
-            ...(isGemini3 ? { thinkingConfig: { includeThoughts: true } } : {})
-        };
+        const config: any = isGemini3 ? { thinkingConfig: { includeThoughts: true } } : {};
 
-        try {
+        return callGemini(async (attemptSignal) => {
             const response = await ai.models.generateContentStream({
                 model: modelName,
                 contents: {
@@ -191,32 +266,17 @@ export const generateVoxelScene = async (
                         { text: VOXEL_PROMPT }
                     ]
                 },
-                config
+                config: { ...config, abortSignal: attemptSignal }
             });
 
-            let fullText = "";
-            for await (const chunk of response) {
-                const candidates = chunk.candidates;
-                if (candidates && candidates[0]?.content?.parts) {
-                    for (const part of candidates[0].content.parts) {
-                        // @ts-ignore
-                        if (part.thought && onThought) {
-                            // @ts-ignore
-                            onThought(part.text); 
-                        } else if (part.text) {
-                            // @ts-ignore
-                            if (!part.thought) fullText += part.text;
-                        }
-                    }
-                }
+            const { text: fullText, blockReason } = await readStream(response, onThought, attemptSignal);
+            const code = cleanCode(fullText);
+            if (!code) {
+                if (blockReason) throw new SafetyBlockedError(blockReason);
+                throw new MalformedResponseError("The model returned no scene code");
             }
-            return cleanCode(fullText);
-        } catch (error: any) {
-            if (error.message?.includes("403") || error.message?.includes("PERMISSION_DENIED")) {
-                throw new Error("PERMISSION_DENIED");
-            }
-            throw error;
-        }
+            return code;
+        }, SCENE_TIMEOUT_MS, modelName, signal, onThought);
     };
 
     try {
@@ -224,6 +284,8 @@ export const generateVoxelScene = async (
         const jsCode = await runModel(primaryModel);
         return { html: constructHtml(jsCode), modelUsed: primaryDisplayName };
     } catch (error: any) {
+        // The fallback would use the same key
+        if (error instanceof AuthError || isAbortError(error)) throw error;
         console.warn(`${primaryModel} failed, falling back...`, error);
         
         try {
@@ -238,16 +300,127 @@ export const generateVoxelScene = async (
     }
 };
 
-export interface DepthMapResult {
-    imageBase64: string;
-    modelUsed: string;
-}
+const STRUCTURED_SCENE_PROMPT = `You are a voxel artist. Rebuild the subject of the image as a voxel model.
+
+Answer with JSON only, in this shape:
+{ "title": short name, "size": [width, height, depth], "palette": [{ "color": "#rrggbb", "material": ... }], "voxels": [[x, y, z, paletteIndex], ...] }
+
+RULES:
+*   Every dimension of "size" is at most ${MAX_SCENE_SIZE}. Aim for 24 to 48 voxels across.
+*   y is up and y = 0 is the ground. z points towards the camera. Coordinates are integers from 0 to size - 1.
+*   At most ${MAX_SCENE_COLORS} palette colors, taken from the image. paletteIndex is an index into "palette".
+*   material is one of ${VOXEL_MATERIALS.join(', ')}; use plastic unless the surface is clearly matte, metallic, transparent or a light source.
+*   Build solid, recognizable shapes with a simple base or ground; the model is viewed from all sides.
+*   Only list the outer shell: voxels completely hidden inside the model can be left out.`;
+
+// Constrains the answer to the wire format read by validateVoxelScene
+const STRUCTURED_SCENE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        size: { type: Type.ARRAY, items: { type: Type.INTEGER }, minItems: '3', maxItems: '3' },
+        palette: {
+            type: Type.ARRAY,
+            maxItems: String(MAX_SCENE_COLORS),
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    color: { type: Type.STRING, pattern: '^#[0-9a-fA-F]{6}$' },
+                    material: { type: Type.STRING, format: 'enum', enum: VOXEL_MATERIALS }
+                },
+                required: ['color'],
+                propertyOrdering: ['color', 'material']
+            }
+        },
+        voxels: {
+            type: Type.ARRAY,
+            items: { type: Type.ARRAY, items: { type: Type.INTEGER }, minItems: '4', maxItems: '4' }
+        }
+    },
+    required: ['size', 'palette', 'voxels'],
+    propertyOrdering: ['title', 'size', 'palette', 'voxels']
+};
+
+// Same models as generateVoxelScene, but the answer is a JSON voxel list (no code to run).
+// Answers that don't parse or fail validation are retried with the fallback model.
+export const generateVoxelSceneData = async (
+    imageBase64: string,
+    manualApiKey?: string,
+    onThought?: (thought: string) => void,
+    signal?: AbortSignal
+): Promise<StructuredSceneResult> => {
+    const hasManualKey = !!manualApiKey && manualApiKey.trim().length > 0;
+    const finalApiKey = hasManualKey ? manualApiKey : process.env.API_KEY;
+
+    if (!finalApiKey) throw new AuthError("No API key configured");
+
+    const primaryModel = hasManualKey ? 'gemini-3-pro-preview' : 'gemini-2.5-flash';
+    const fallbackModel = 'gemini-2.0-flash';
+    const primaryDisplayName = hasManualKey ? 'Gemini 3 Pro' : 'Gemini 2.5 Flash';
+
+    const ai = new GoogleGenAI({ apiKey: finalApiKey });
+    const base64Data = imageBase64.split(',')[1] || imageBase64;
 
-export const generateDepthMap = async (imageBase64: string, manualApiKey?: string): Promise<DepthMapResult> => {
+    const runModel = (modelName: string): Promise<StructuredSceneResult['scene']> => callGemini(async (attemptSignal) => {
+        const response = await ai.models.generateContentStream({
+            model: modelName,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
+                    { text: STRUCTURED_SCENE_PROMPT }
+                ]
+            },
+            config: {
+                ...(modelName.includes('gemini-3') ? { thinkingConfig: { includeThoughts: true } } : {}),
+                responseMimeType: 'application/json',
+                responseSchema: STRUCTURED_SCENE_SCHEMA,
+                abortSignal: attemptSignal
+            }
+        });
+
+        const { text, blockReason } = await readStream(response, onThought, attemptSignal);
+        if (!text.trim()) {
+            if (blockReason) throw new SafetyBlockedError(blockReason);
+            throw new MalformedResponseError("The model returned no voxel data");
+        }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error) {
+            throw new MalformedResponseError("The voxel data is not valid JSON", error);
+        }
+        const { valid, reason, scene, dropped } = validateVoxelScene(parsed);
+        if (!valid || !scene) throw new MalformedResponseError(reason || "Invalid voxel data");
+        if (dropped > 0) console.warn(`${modelName}: ${dropped} voxels dropped during validation`);
+        return scene;
+    }, SCENE_TIMEOUT_MS, modelName, signal, onThought);
+
+    try {
+        if (onThought) onThought(`Using ${primaryDisplayName}...`);
+        return { scene: await runModel(primaryModel), modelUsed: primaryDisplayName };
+    } catch (error) {
+        // The fallback would use the same key
+        if (error instanceof AuthError || isAbortError(error)) throw error;
+        console.warn(`${primaryModel} failed, falling back...`, error);
+
+        const fallbackDisplayName = 'Gemini 2.0 Flash (fallback)';
+        if (onThought) onThought(`${primaryDisplayName} failed. Trying ${fallbackDisplayName}...`);
+        return { scene: await runModel(fallbackModel), modelUsed: fallbackDisplayName };
+    }
+};
+
+// validate runs on each returned map and throws (e.g. MalformedResponseError) to reject it,
+// which moves on to the fallback model
+export const generateDepthMap = async (
+    imageBase64: string,
+    manualApiKey?: string,
+    signal?: AbortSignal,
+    validate?: (depthBase64: string) => Promise<void>
+): Promise<DepthMapResult> => {
     const hasManualKey = !!manualApiKey && manualApiKey.trim().length > 0;
     const finalApiKey = hasManualKey ? manualApiKey : process.env.API_KEY;
     
-    if (!finalApiKey) throw new Error("API Key is missing.");
+    if (!finalApiKey) throw new AuthError("No API key configured");
 
     // MODELOS CORRECTOS (verificados en documentación Google):
     // Con API key manual → gemini-3-pro-image-preview (soporta generación de imágenes nativa)
@@ -258,7 +431,6 @@ export const generateDepthMap = async (imageBase64: string, manualApiKey?: strin
     console.log(`Generating depth map with: ${modelToUse} (Manual API Key: ${hasManualKey})`);
 
     const ai = new GoogleGenAI({ apiKey: finalApiKey });
-    const prompt = `Generate a high-fidelity grayscale depth map image. White = close, Black = far. Smooth gradients. Output at maximum resolution.`;
 
     const safetySettings = [
         { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
@@ -267,35 +439,43 @@ export const generateDepthMap = async (imageBase64: string, manualApiKey?: strin
         { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }
     ];
 
-    const extractImage = (response: any) => {
+    const extractImage = (response: any): string => {
+        const blockReason = response.promptFeedback?.blockReason;
+        if (blockReason) throw new SafetyBlockedError(blockReason);
         const parts = response.candidates?.[0]?.content?.parts || [];
         for (const part of parts) {
             if (part.inlineData?.data) return part.inlineData.data;
         }
         const finishReason = response.candidates?.[0]?.finishReason;
-        if (finishReason) {
-            throw new Error(`Gemini finished with reason: ${finishReason}. Content may have been blocked.`);
-        }
-        throw new Error("No image data returned.");
+        if (finishReason && BLOCKED_REASONS.has(finishReason)) throw new SafetyBlockedError(finishReason);
+        throw new NoImageError(finishReason ? `No image data returned (${finishReason})` : "No image data returned");
     };
 
-    try {
+    const runModel = (modelName: string): Promise<string> => callGemini(async (attemptSignal) => {
         const response = await ai.models.generateContent({
-            model: modelToUse,
+            model: modelName,
             contents: {
-                parts: [{ inlineData: { mimeType: 'image/jpeg', data: imageBase64 } }, { text: prompt }],
+                parts: [{ inlineData: { mimeType: 'image/jpeg', data: imageBase64 } }, { text: DEPTH_PROMPT }],
             },
             config: {
                 responseModalities: ["IMAGE"],
-                safetySettings
+                safetySettings,
+                abortSignal: attemptSignal
             }
         });
-        
+        const depthBase64 = extractImage(response);
+        if (validate) await validate(depthBase64);
+        return depthBase64;
+    }, DEPTH_TIMEOUT_MS, modelName, signal);
+
+    try {
         return {
-            imageBase64: extractImage(response),
+            imageBase64: await runModel(modelToUse),
             modelUsed: modelDisplayName
         };
     } catch (error: any) {
+        // The fallback would use the same key
+        if (error instanceof AuthError || isAbortError(error)) throw error;
         console.warn(`${modelToUse} failed:`, error);
         
         // Fallback: si falla el primario, intentar con el otro
@@ -305,23 +485,13 @@ export const generateDepthMap = async (imageBase64: string, manualApiKey?: strin
         console.log(`Trying fallback model: ${fallbackModel}`);
         
         try {
-            const responseFallback = await ai.models.generateContent({
-                model: fallbackModel,
-                contents: {
-                    parts: [{ inlineData: { mimeType: 'image/jpeg', data: imageBase64 } }, { text: prompt }],
-                },
-                config: { 
-                    responseModalities: ["IMAGE"],
-                    safetySettings 
-                }
-            });
-            
             return {
-                imageBase64: extractImage(responseFallback),
+                imageBase64: await runModel(fallbackModel),
                 modelUsed: fallbackDisplayName
             };
         } catch (finalError) {
-            throw new Error(`Failed to generate depth map. Primary: ${modelToUse}, Fallback: ${fallbackModel}`);
+            console.error(`Failed to generate depth map. Primary: ${modelToUse}, Fallback: ${fallbackModel}`, finalError);
+            throw finalError;
         }
     }
 };
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { loadImage, resizeImage, luminance, boxFilter } from "../utils/imageProcessing";
+import { constructHtml } from "./sceneTemplate";
+import { DepthProvider, ProviderSettings, SceneProvider } from "./providers";
+import { SceneVoxel, VoxelPaletteEntry } from "../types";
+import { createAbortError } from "../utils/cloudBuilderClient";
+
+// Offline providers: deterministic, no network and no key. The depth is a heuristic (ground-plane
+// prior + brightness + centre bias), good enough to exercise the whole pipeline and for tests.
+
+type LocalDepthMethod = 'blend' | 'gradient' | 'luminance';
+
+const LOCAL_DEPTH_SIZE = 512;
+const SCENE_COLUMNS = 32;
+const SCENE_MAX_HEIGHT = 8;
+
+const METHOD_LABELS: Record<LocalDepthMethod, string> = {
+    blend: 'Blend',
+    gradient: 'Ground plane',
+    luminance: 'Luminance'
+};
+
+// Normalised nearness (1 = near) from simple monocular cues
+const estimateLocalDepth = (rgba: Uint8ClampedArray, width: number, height: number, method: LocalDepthMethod): Float32Array => {
+    const count = width * height;
+    const radius = Math.max(1, Math.round(Math.max(width, height) / 64));
+    // Blurred twice so the brightness cue doesn't carry texture into the depth
+    const lum = boxFilter(boxFilter(luminance(rgba, count), width, height, radius), width, height, radius);
+
+    const depth = new Float32Array(count);
+    for (let y = 0; y < height; y++) {
+        // Lower in the frame = closer (camera looking over a ground plane)
+        const ground = height > 1 ? y / (height - 1) : 0.5;
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const dx = (x / Math.max(1, width - 1)) - 0.5, dy = (y / Math.max(1, height - 1)) - 0.5;
+            const centre = 1 - Math.min(1, Math.sqrt(dx * dx + dy * dy) * 1.6);
+            depth[i] = method === 'gradient' ? 0.8 * ground + 0.2 * centre
+                : method === 'luminance' ? lum[i]
+                : 0.5 * ground + 0.3 * lum[i] + 0.2 * centre;
+        }
+    }
+
+    let min = Infinity, max = -Infinity;
+    for (let i = 0; i < count; i++) {
+        if (depth[i] < min) min = depth[i];
+        if (depth[i] > max) max = depth[i];
+    }
+    const range = max - min || 1;
+    for (let i = 0; i < count; i++) depth[i] = (depth[i] - min) / range;
+    return depth;
+};
+
+const readPixels = async (imageSrc: string, maxSize: number) => {
+    const canvas = resizeImage(await loadImage(imageSrc), maxSize);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas not supported");
+    return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height };
+};
+
+// The work is synchronous, so cancellation is only checked between steps
+const checkAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError('Generation cancelled');
+};
+
+const methodOf = (settings: ProviderSettings): LocalDepthMethod =>
+    (settings.method in METHOD_LABELS ? settings.method : 'blend') as LocalDepthMethod;
+
+export const localDepthProvider: DepthProvider = {
+    id: 'local',
+    name: 'Local (offline)',
+    requiresNetwork: false,
+    settingsFields: [{
+        key: 'method',
+        label: 'Depth cue',
+        type: 'select',
+        options: (Object.keys(METHOD_LABELS) as LocalDepthMethod[]).map(value => ({ value, label: METHOD_LABELS[value] })),
+        defaultValue: 'blend'
+    }],
+    isConfigured: async () => true,
+    describeModel: (settings) => `Local ${METHOD_LABELS[methodOf(settings)]}`,
+    promptVersion: 'local-1',
+    generateDepth: async (imageSrc, settings, signal) => {
+        const { data, width, height } = await readPixels(imageSrc, LOCAL_DEPTH_SIZE);
+        checkAborted(signal);
+        const depth = estimateLocalDepth(data, width, height, methodOf(settings));
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas not supported");
+        const image = ctx.createImageData(width, height);
+        for (let i = 0; i < depth.length; i++) {
+            const v = Math.round(depth[i] * 255);
+            image.data[i * 4] = v;
+            image.data[i * 4 + 1] = v;
+            image.data[i * 4 + 2] = v;
+            image.data[i * 4 + 3] = 255;
+        }
+        ctx.putImageData(image, 0, 0);
+        return {
+            imageBase64: canvas.toDataURL('image/png').split(',')[1],
+            modelUsed: `Local ${METHOD_LABELS[methodOf(settings)]}`
+        };
+    }
+};
+
+// Isometric height-field diorama drawn with canvas 2D (no Three.js, so it works offline).
+// Rotates on its own, by dragging, or with the same 'gesture' messages as generated scenes.
+const localSceneCode = (data: { cols: number; rows: number; heights: number[]; colors: string[] }) => `
+        const DATA = ${JSON.stringify(data)};
+        const canvas = document.createElement('canvas');
+        document.body.appendChild(canvas);
+        const ctx = canvas.getContext('2d');
+        let angle = 0.6, zoom = 1, dragging = false, lastX = 0;
+
+        const resize = () => {
+            canvas.width = window.innerWidth * devicePixelRatio;
+            canvas.height = window.innerHeight * devicePixelRatio;
+            canvas.style.width = window.innerWidth + 'px';
+            canvas.style.height = window.innerHeight + 'px';
+        };
+        resize();
+        window.addEventListener('resize', resize);
+
+        const shade = (hex, f) => {
+            const n = parseInt(hex.slice(1), 16);
+            return 'rgb(' + Math.round(((n >> 16) & 255) * f) + ',' + Math.round(((n >> 8) & 255) * f) + ',' + Math.round((n & 255) * f) + ')';
+        };
+
+        const draw = () => {
+            const W = canvas.width, H = canvas.height;
+            ctx.fillStyle = '#1a1a2e';
+            ctx.fillRect(0, 0, W, H);
+            const size = Math.min(W, H) / (Math.max(DATA.cols, DATA.rows) * 1.5) * zoom;
+            const cos = Math.cos(angle), sin = Math.sin(angle);
+            const project = (x, y, z) => {
+                const rx = x * cos - y * sin, ry = x * sin + y * cos;
+                return [W / 2 + (rx - ry) * 0.866 * size, H * 0.55 + (rx + ry) * 0.5 * size - z * size];
+            };
+            const polygon = (points, fill) => {
+                ctx.beginPath();
+                points.forEach((p, i) => i ? ctx.lineTo(p[0], p[1]) : ctx.moveTo(p[0], p[1]));
+                ctx.closePath();
+                ctx.fillStyle = fill;
+                ctx.fill();
+            };
+
+            // Painter's order: far columns first
+            const cells = [];
+            for (let r = 0; r < DATA.rows; r++) {
+                for (let c = 0; c < DATA.cols; c++) {
+                    const x = c - DATA.cols / 2, y = r - DATA.rows / 2;
+                    const cx = x + 0.5, cy = y + 0.5;
+                    cells.push({ x, y, i: r * DATA.cols + c, depth: (cx * cos - cy * sin) + (cx * sin + cy * cos) });
+                }
+            }
+            cells.sort((a, b) => a.depth - b.depth);
+
+            for (const cell of cells) {
+                const h = DATA.heights[cell.i], color = DATA.colors[cell.i];
+                const corners = [[cell.x, cell.y], [cell.x + 1, cell.y], [cell.x + 1, cell.y + 1], [cell.x, cell.y + 1]];
+                for (let e = 0; e < 4; e++) {
+                    const a = corners[e], b = corners[(e + 1) % 4];
+                    const nx = b[1] - a[1], ny = a[0] - b[0];
+                    const rnx = nx * cos - ny * sin, rny = nx * sin + ny * cos;
+                    if (rnx + rny <= 0) continue; // Faces away from the viewer
+                    polygon([project(a[0], a[1], 0), project(b[0], b[1], 0), project(b[0], b[1], h), project(a[0], a[1], h)], shade(color, rnx > rny ? 0.75 : 0.55));
+                }
+                polygon(corners.map(p => project(p[0], p[1], h)), color);
+            }
+        };
+
+        canvas.addEventListener('pointerdown', (e) => { dragging = true; lastX = e.clientX; });
+        window.addEventListener('pointerup', () => { dragging = false; });
+        window.addEventListener('pointermove', (e) => {
+            if (!dragging) return;
+            angle += (e.clientX - lastX) * 0.01;
+            lastX = e.clientX;
+        });
+        window.addEventListener('wheel', (e) => { zoom = Math.max(0.3, Math.min(4, zoom * (e.deltaY > 0 ? 0.9 : 1.1))); });
+        window.addEventListener('message', (e) => {
+            const { type, data } = e.data || {};
+            if (type === 'gesture' && data && data.isTracking) {
+                angle += data.rotation.x * 0.1;
+                if (data.scale) zoom = Math.max(0.3, Math.min(4, data.scale));
+            }
+        });
+
+        const animate = () => {
+            requestAnimationFrame(animate);
+            if (!dragging) angle += 0.003;
+            draw();
+        };
+        animate();
+`;
+
+// Same height field as the diorama, as voxel columns. Colors are cut to 4 levels per channel
+// so the palette stays within 64 entries.
+const localVoxelScene = (data: Uint8ClampedArray, width: number, height: number, depth: Float32Array) => {
+    const palette: VoxelPaletteEntry[] = [];
+    const paletteIndex = new Map<string, number>();
+    const voxels: SceneVoxel[] = [];
+    const level = (v: number) => Math.round(v / 85) * 85;
+
+    for (let row = 0; row < height; row++) {
+        for (let x = 0; x < width; x++) {
+            const i = row * width + x;
+            const color = '#' + ((level(data[i * 4]) << 16) | (level(data[i * 4 + 1]) << 8) | level(data[i * 4 + 2])).toString(16).padStart(6, '0');
+            let index = paletteIndex.get(color);
+            if (index === undefined) {
+                index = palette.length;
+                paletteIndex.set(color, index);
+                palette.push({ color });
+            }
+            // Bottom of the picture faces the viewer (+Z)
+            const columnHeight = 1 + Math.round(depth[i] * (SCENE_MAX_HEIGHT - 1));
+            for (let y = 0; y < columnHeight; y++) voxels.push({ x, y, z: row, color: index });
+        }
+    }
+    return { title: 'Local Diorama', size: [width, SCENE_MAX_HEIGHT, height] as [number, number, number], palette, voxels };
+};
+
+export const localSceneProvider: SceneProvider = {
+    id: 'local',
+    name: 'Local (offline)',
+    requiresNetwork: false,
+    settingsFields: [],
+    isConfigured: async () => true,
+    describeModel: () => 'Local Diorama',
+    promptVersion: 'local-1',
+    generateScene: async (imageSrc, _settings, onThought, signal) => {
+        onThought?.('Sampling colors and heights...');
+        const { data, width, height } = await readPixels(imageSrc, SCENE_COLUMNS);
+        checkAborted(signal);
+        const depth = estimateLocalDepth(data, width, height, 'blend');
+
+        const heights: number[] = [];
+        const colors: string[] = [];
+        for (let i = 0; i < width * height; i++) {
+            heights.push(1 + Math.round(depth[i] * (SCENE_MAX_HEIGHT - 1)));
+            colors.push('#' + ((data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]).toString(16).padStart(6, '0'));
+        }
+        return {
+            html: constructHtml(localSceneCode({ cols: width, rows: height, heights, colors }), { three: false }),
+            modelUsed: 'Local Diorama'
+        };
+    },
+    structured: {
+        promptVersion: 'local-1',
+        generate: async (imageSrc, _settings, onThought, signal) => {
+            onThought?.('Sampling colors and heights...');
+            const { data, width, height } = await readPixels(imageSrc, SCENE_COLUMNS);
+            checkAborted(signal);
+            const depth = estimateLocalDepth(data, width, height, 'blend');
+            return { scene: localVoxelScene(data, width, height, depth), modelUsed: 'Local Diorama' };
+        }
+    }
+};
@@ -0,0 +1,119 @@
+import { geminiDepthProvider, geminiSceneProvider } from "./geminiProvider";
+import { localDepthProvider, localSceneProvider } from "./localProvider";
+import { VoxelScene } from "../types";
+import { ValidatedDepth } from "../utils/depthValidation";
+
+export interface DepthMapResult {
+    imageBase64: string; // PNG, white = near
+    modelUsed: string;
+    // Set by providers that already validated and fitted the map, so it isn't decoded again
+    validation?: ValidatedDepth;
+}
+
+export interface SceneGenerationResult {
+    html: string;
+    modelUsed: string;
+}
+
+export interface StructuredSceneResult {
+    scene: VoxelScene; // Already validated
+    modelUsed: string;
+}
+
+// A user-editable provider setting, rendered in API Configuration
+export interface ProviderSettingField {
+    key: string;
+    label: string;
+    type: 'password' | 'text' | 'select';
+    options?: { value: string; label: string }[];
+    placeholder?: string;
+    defaultValue?: string;
+}
+
+export type ProviderSettings = Record<string, string>;
+
+// Shared by depth and scene providers. Providers with the same id (one backend offering
+// both) share one settings object.
+interface ProviderBase {
+    id: string;
+    name: string;
+    requiresNetwork: boolean;
+    settingsFields: ProviderSettingField[];
+    // Whether the provider can run with these settings (e.g. an API key is available)
+    isConfigured: (settings: ProviderSettings) => Promise<boolean>;
+    // Model name shown in progress messages
+    describeModel: (settings: ProviderSettings) => string;
+}
+
+export interface DepthProvider extends ProviderBase {
+    // Bumped when the prompt or algorithm changes, so cached results from older versions are not reused
+    promptVersion: string;
+    // imageSrc is a data URL; the result is a grayscale depth image.
+    // Aborting the signal rejects with an AbortError.
+    generateDepth: (imageSrc: string, settings: ProviderSettings, signal?: AbortSignal) => Promise<DepthMapResult>;
+}
+
+export interface SceneProvider extends ProviderBase {
+    promptVersion: string;
+    generateScene: (
+        imageSrc: string,
+        settings: ProviderSettings,
+        onThought?: (thought: string) => void,
+        signal?: AbortSignal
+    ) => Promise<SceneGenerationResult>;
+    // Optional voxel-list output, rendered natively by VoxelViewer instead of running generated code
+    structured?: {
+        promptVersion: string;
+        generate: (
+            imageSrc: string,
+            settings: ProviderSettings,
+            onThought?: (thought: string) => void,
+            signal?: AbortSignal
+        ) => Promise<StructuredSceneResult>;
+    };
+}
+
+const depthProviders = new Map<string, DepthProvider>();
+const sceneProviders = new Map<string, SceneProvider>();
+
+// Registering an existing id replaces it, so a backend can override a built-in
+export const registerDepthProvider = (provider: DepthProvider) => {
+    depthProviders.set(provider.id, provider);
+};
+
+export const registerSceneProvider = (provider: SceneProvider) => {
+    sceneProviders.set(provider.id, provider);
+};
+
+export const listDepthProviders = (): DepthProvider[] => Array.from(depthProviders.values());
+export const listSceneProviders = (): SceneProvider[] => Array.from(sceneProviders.values());
+
+export const getDepthProvider = (id: string): DepthProvider => {
+    const provider = depthProviders.get(id);
+    if (!provider) throw new Error(`Unknown depth provider: ${id}`);
+    return provider;
+};
+
+export const getSceneProvider = (id: string): SceneProvider => {
+    const provider = sceneProviders.get(id);
+    if (!provider) throw new Error(`Unknown scene provider: ${id}`);
+    return provider;
+};
+
+// Settings of a provider with its field defaults filled in
+export const resolveProviderSettings = (provider: DepthProvider | SceneProvider, stored: ProviderSettings | undefined): ProviderSettings => {
+    const settings: ProviderSettings = {};
+    provider.settingsFields.forEach(field => {
+        if (field.defaultValue !== undefined) settings[field.key] = field.defaultValue;
+    });
+    return { ...settings, ...stored };
+};
+
+export const DEFAULT_DEPTH_PROVIDER = 'gemini';
+export const DEFAULT_SCENE_PROVIDER = 'gemini';
+
+// Built-ins
+registerDepthProvider(geminiDepthProvider);
+registerDepthProvider(localDepthProvider);
+registerSceneProvider(geminiSceneProvider);
+registerSceneProvider(localSceneProvider);
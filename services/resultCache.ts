@@ -0,0 +1,171 @@
+import {
+    DepthMapResult,
+    DepthProvider,
+    ProviderSettings,
+    SceneGenerationResult,
+    SceneProvider,
+    StructuredSceneResult
+} from "./providers";
+
+// Persistent cache of provider results in IndexedDB, keyed by the SHA-256 of the image plus
+// provider, model and prompt version, so regenerating a picture seen before costs no request.
+
+export type CacheKind = 'depth' | 'scene' | 'voxels';
+
+type CachedValue = DepthMapResult | SceneGenerationResult | StructuredSceneResult;
+
+// Listing row: everything but the stored result
+export interface CacheEntryInfo {
+    key: string;
+    kind: CacheKind;
+    provider: string;
+    model: string;
+    promptVersion: string;
+    size: number; // bytes, approximate (UTF-16 length of the payload)
+    createdAt: number;
+    lastUsed: number;
+}
+
+// Payloads live apart from their metadata so listing and eviction never read them
+interface CacheValueRecord {
+    key: string;
+    value: CachedValue;
+}
+
+const DB_NAME = 'artefacto-cache';
+const DB_VERSION = 2;
+const META_STORE = 'entries';
+const VALUE_STORE = 'values';
+// Least recently used entries are evicted past this
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') return reject(new Error("IndexedDB not available"));
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                // Version 1 kept metadata and payload in one store; its entries are simply dropped
+                const db = request.result;
+                Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+                db.createObjectStore(META_STORE, { keyPath: 'key' });
+                db.createObjectStore(VALUE_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (private mode, blocked) is retried on the next call
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(
+    mode: IDBTransactionMode,
+    body: (meta: IDBObjectStore, values: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([META_STORE, VALUE_STORE], mode);
+        const request = body(tx.objectStore(META_STORE), tx.objectStore(VALUE_STORE));
+        tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Hash of the image content (the data URL payload, so the MIME prefix doesn't matter)
+export const hashImage = async (imageSrc: string): Promise<string> => {
+    const payload = imageSrc.split(',')[1] || imageSrc;
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload)));
+};
+
+export const makeCacheKey = (kind: CacheKind, imageHash: string, provider: string, model: string, promptVersion: string) =>
+    [kind, imageHash, provider, model, promptVersion].join('|');
+
+export const getCachedResult = async <T extends CachedValue>(key: string): Promise<T | null> => {
+    const [info, record] = await Promise.all([
+        run<CacheEntryInfo | undefined>('readonly', meta => meta.get(key)),
+        run<CacheValueRecord | undefined>('readonly', (_meta, values) => values.get(key))
+    ]);
+    if (!info || !record) return null;
+    await run('readwrite', meta => { meta.put({ ...info, lastUsed: Date.now() }); });
+    return record.value as T;
+};
+
+export const listCacheEntries = async (): Promise<CacheEntryInfo[]> => {
+    const entries = await run<CacheEntryInfo[]>('readonly', meta => meta.getAll());
+    return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+export const deleteCacheEntry = (key: string) => run('readwrite', (meta, values) => {
+    meta.delete(key);
+    values.delete(key);
+});
+
+export const clearCache = () => run('readwrite', (meta, values) => {
+    meta.clear();
+    values.clear();
+});
+
+// Drops least recently used entries until the total fits in maxBytes
+export const evictToSize = async (maxBytes: number = MAX_CACHE_BYTES) => {
+    const entries = await listCacheEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (let i = entries.length - 1; i >= 0 && total > maxBytes; i--) {
+        await deleteCacheEntry(entries[i].key);
+        total -= entries[i].size;
+    }
+};
+
+export const putCachedResult = async (
+    info: Omit<CacheEntryInfo, 'size' | 'createdAt' | 'lastUsed'>,
+    value: CachedValue
+) => {
+    const now = Date.now();
+    const payload = 'html' in value ? value.html
+        : 'scene' in value ? JSON.stringify(value.scene)
+        : value.imageBase64 + (value.validation?.src || '');
+    const size = 2 * payload.length;
+    await run('readwrite', (meta, values) => {
+        meta.put({ ...info, size, createdAt: now, lastUsed: now });
+        values.put({ key: info.key, value });
+    });
+    await evictToSize();
+};
+
+// Looks the request up before calling produce() and stores what it returns. Offline providers
+// are not cached (recomputing is as cheap as reading back). Cache failures never fail the request.
+// Only answers from the requested model are stored: a fallback result would otherwise be served
+// for that image from then on and the primary model never asked again.
+export const withResultCache = async <T extends CachedValue>(
+    kind: CacheKind,
+    imageSrc: string,
+    provider: DepthProvider | SceneProvider,
+    settings: ProviderSettings,
+    produce: () => Promise<T>
+): Promise<{ result: T; cached: boolean }> => {
+    if (!provider.requiresNetwork) return { result: await produce(), cached: false };
+
+    const model = provider.describeModel(settings);
+    let key: string | null = null;
+    try {
+        key = makeCacheKey(kind, await hashImage(imageSrc), provider.id, model, provider.promptVersion);
+        const hit = await getCachedResult<T>(key);
+        if (hit) return { result: hit, cached: true };
+    } catch (error) {
+        console.warn("Result cache unavailable", error);
+    }
+
+    const result = await produce();
+    if (key && result.modelUsed === model) {
+        putCachedResult({ key, kind, provider: provider.id, model, promptVersion: provider.promptVersion }, result)
+            .catch(error => console.warn("Could not cache result", error));
+    }
+    return { result, cached: false };
+};
@@ -0,0 +1,37 @@
+// HTML Template using Three.js r128 (proper UMD support), shared by the scene providers.
+// Scenes that don't need Three.js (e.g. the offline provider) skip the CDN scripts.
+export const constructHtml = (jsCode: string, { three = true }: { three?: boolean } = {}) => `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>body { margin: 0; overflow: hidden; background-color: #1a1a2e; }</style>
+</head>
+<body>
+    <div id="info" style="position:absolute; top:10px; left:10px; color:white; font-family:monospace; font-size:10px; pointer-events:none; z-index:10;">Generated Scene</div>
+    
+    ${three ? `<script src="https://cdnjs.cloudflare.com/ajax/libs/three.js/r128/three.min.js"></script>
+    <script src="https://cdn.jsdelivr.net/npm/three@0.128.0/examples/js/controls/OrbitControls.js"></script>` : ''}
+    
+    <script>
+        window.addEventListener('error', (e) => {
+            const el = document.createElement('div');
+            el.style.cssText = 'position:absolute;top:50%;left:50%;transform:translate(-50%,-50%);color:#ff5555;background:rgba(0,0,0,0.9);padding:20px;z-index:999;font-family:monospace;border:1px solid #ff5555;border-radius:8px;max-width:80%;word-wrap:break-word;';
+            el.innerText = 'Scene Error: ' + e.message;
+            document.body.appendChild(el);
+        });
+
+        try {
+            ${jsCode}
+        } catch (err) {
+            console.error("AI Code Execution Error:", err);
+            const el = document.createElement('div');
+            el.style.cssText = 'position:absolute;top:50%;left:50%;transform:translate(-50%,-50%);color:#ff5555;background:rgba(0,0,0,0.9);padding:20px;z-index:999;font-family:monospace;border:1px solid #ff5555;border-radius:8px;max-width:80%;word-wrap:break-word;';
+            el.innerText = 'Execution Error: ' + err.message;
+            document.body.appendChild(el);
+        }
+    </script>
+</body>
+</html>
+`;
@@ -1,11 +1,32 @@
 export interface ProcessedPointCloud {
   positions: Float32Array;
   colors: Float32Array;
+  // Source pixel (y * width + x) of each point, used to rebuild grid connectivity
+  pixelIndices: Uint32Array;
+  // Unit surface normals estimated from the depth grid (points mode only)
+  normals?: Float32Array;
+  // Voxel colour palette (packed 0xRRGGBB) and points per entry, when quantised
+  palette?: number[];
+  paletteCounts?: number[];
+  // Level-of-detail octree over the (reordered) points, root first
+  octree?: OctreeNode[];
   count: number;
   width: number;
   height: number;
 }
 
+export interface OctreeNode {
+  // Axis-aligned cube in cloud space
+  min: [number, number, number];
+  size: number;
+  level: number;
+  // Contiguous range of points owned by this node (a grid-sampled subset of its cube)
+  start: number;
+  count: number;
+  // Node indices per octant, -1 for empty octants
+  children: number[];
+}
+
 export interface HandGestures {
   rotation: { x: number; y: number };
   scale: number;
@@ -18,4 +39,248 @@ export interface ImageDimensions {
   height: number;
 }
 
-export type ViewMode = 'points' | 'voxels' | 'scene';
\ No newline at end of file
+// Voxel colour quantisation: 'retro' is the original 8-level posterize
+export type PaletteMode = 'retro' | 'kmeans' | 'median-cut' | 'bricks' | 'custom';
+
+export interface PaletteOptions {
+  mode: PaletteMode;
+  // Number of colours for the adaptive palettes (k-means / median-cut)
+  size: number;
+  dither: boolean;
+  // Packed 0xRRGGBB colours from a user swatch image ('custom' mode)
+  customColors?: number[];
+}
+
+// How the voxel grid is filled below the depth surface
+export type VoxelFillMode = 'shell' | 'gaps' | 'columns';
+
+export type ViewMode = 'points' | 'voxels' | 'mesh' | 'scene';
+
+export type CameraProjection = 'orthographic' | 'perspective';
+
+export interface CameraModel {
+  projection: CameraProjection;
+  // Horizontal field of view in degrees
+  horizontalFov: number;
+  // 35mm-equivalent focal length; when set it takes precedence over horizontalFov
+  focalLength35mm?: number;
+  // Principal point as a fraction of the image size (0.5, 0.5 = optical centre)
+  principalPoint: { x: number; y: number };
+}
+
+export type EdgeFilterMode = 'off' | 'drop' | 'snap';
+
+export interface EdgeFilter {
+  mode: EdgeFilterMode;
+  // Max depth difference (0..1) to any neighbour before a pixel counts as a discontinuity
+  threshold: number;
+}
+
+export interface DepthClip {
+  // Normalised depth window to keep (0 = far/black, 1 = near/white)
+  near: number;
+  far: number;
+  // Pick the far plane automatically with an Otsu threshold on the depth histogram
+  removeBackground: boolean;
+}
+
+// How 8-bit depth images are read: red channel only, or 16 bits packed as R (high) + G (low).
+// 16-bit PNG and PFM sources are detected from their headers regardless of this setting.
+export type DepthEncoding = 'gray8' | 'rg16';
+
+// Normalised depth grid (0 = far, 1 = near), row-major
+export interface DepthBuffer {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// What the gray values of the depth map represent
+export type DepthInterpretation = 'linear' | 'disparity' | 'log';
+
+export interface DepthCurvePoint {
+  x: number;
+  y: number;
+}
+
+// Gray value -> nearness mapping applied at build time: interpretation, then curve, then invert
+export interface DepthResponse {
+  interpretation: DepthInterpretation;
+  // Spline control points in 0..1 (x = interpreted depth, y = output depth)
+  curve: DepthCurvePoint[];
+  invert: boolean;
+}
+
+export type DepthRefinementMethod = 'none' | 'bilateral' | 'guided';
+
+export interface DepthRefinement {
+  method: DepthRefinementMethod;
+  // Blend between the raw (0) and fully filtered (1) depth
+  strength: number;
+  // Filter window radius in pixels at build resolution
+  radius: number;
+  // 3x3 median pass before the guided stage to remove speckle
+  median: boolean;
+}
+
+export type SamplingStrategy = 'random' | 'stratified' | 'poisson' | 'detail';
+
+export interface SamplingOptions {
+  strategy: SamplingStrategy;
+  // Seed for the PRNG; the same seed and settings always rebuild the same cloud
+  seed: number;
+}
+
+// Options for generatePointCloudFromImages beyond sampling and voxel mode
+export interface CloudBuildOptions {
+  sampling?: SamplingOptions;
+  refinement?: DepthRefinement;
+  response?: DepthResponse;
+  camera?: CameraModel;
+  edgeFilter?: EdgeFilter;
+  clip?: DepthClip;
+  // Voxel mode colour quantisation (defaults to 'retro')
+  palette?: PaletteOptions;
+  // Estimate per-point normals for lit rendering
+  normals?: boolean;
+  // Reorder the points into a level-of-detail octree (points mode, large clouds)
+  octree?: boolean;
+}
+
+// --- Video sequences ---
+
+// One extracted video frame; depth is the raw per-frame map (temporal smoothing is applied at build time)
+export interface SequenceFrame {
+  time: number; // seconds into the video
+  image: string;
+  depth: string | null;
+}
+
+export interface DepthSequence {
+  fps: number;
+  frames: SequenceFrame[];
+}
+
+// --- Offline stereo depth ---
+
+// 'block': SAD block matching; 'sgm': census cost + semi-global aggregation
+export type StereoMatcher = 'block' | 'sgm';
+
+export interface StereoOptions {
+  matcher: StereoMatcher;
+  maxDisparity: number; // Search range as a fraction of the image width
+  blockSize: number; // Odd window size for block matching
+  rectify: boolean; // Estimate and remove vertical misalignment first
+}
+
+export interface StereoResult {
+  depth: DepthBuffer;
+  validFraction: number; // Pixels that passed the left-right check before hole filling
+  rectification: { matches: number; maxShift: number } | null;
+}
+
+// --- Multi-view fusion ---
+
+export type Vec3 = [number, number, number];
+
+// p' = scale * R * p + translation, with R a row-major 3x3 rotation
+export interface SimilarityTransform {
+  rotation: number[];
+  scale: number;
+  translation: Vec3;
+}
+
+// An extra photo merged into the reference cloud. Its cloud is rebuilt from the sources,
+// so only what is needed to redo the merge is kept (and saved in .artefacto files).
+export interface FusedView {
+  imageSrc: string;
+  depthSrc: string;
+  // View cloud -> reference cloud, for a reference whose longest side was referenceSize
+  // (cloud coordinates scale with the build resolution)
+  transform: SimilarityTransform;
+  referenceSize: number;
+}
+
+export interface FusionState {
+  views: FusedView[];
+  dedupeSize: number;
+}
+
+// --- Structured voxel scenes ---
+
+// What the scene generator returns: Three.js code run in an iframe, or a voxel list we render
+export type SceneFormat = 'code' | 'voxels';
+
+// Surface look of a palette entry; the voxel viewer renders each material as its own mesh
+export type VoxelMaterial = 'plastic' | 'matte' | 'metal' | 'glass' | 'emissive';
+
+export interface VoxelPaletteEntry {
+  color: string; // '#rrggbb'
+  material?: VoxelMaterial;
+}
+
+// Integer cell inside the scene bounds (y up); color indexes the palette
+export interface SceneVoxel {
+  x: number;
+  y: number;
+  z: number;
+  color: number;
+}
+
+export interface VoxelScene {
+  title?: string;
+  size: [number, number, number];
+  palette: VoxelPaletteEntry[];
+  voxels: SceneVoxel[];
+}
+
+// --- Cloud builder worker protocol ---
+
+export interface CloudBuildRequest {
+  type: 'build';
+  id: number;
+  colorSrc: string;
+  depthSrc: string;
+  depthEncoding: DepthEncoding;
+  targetResolution: number;
+  samplingFactor: number;
+  isVoxelMode: boolean;
+  options: CloudBuildOptions;
+}
+
+// Merges aligned clouds (fusion); clouds[0] is the reference and keeps priority
+export interface CloudMergeRequest {
+  type: 'merge';
+  id: number;
+  clouds: ProcessedPointCloud[];
+  transforms: SimilarityTransform[];
+  dedupeSize: number;
+  octree: boolean;
+}
+
+export type CloudWorkerRequest = CloudBuildRequest | CloudMergeRequest;
+
+export type CloudBuildStage = 'decode' | 'resize' | 'build' | 'merge' | 'index';
+
+export type CloudBuildResponse =
+  | { type: 'progress'; id: number; stage: CloudBuildStage; progress: number }
+  | { type: 'result'; id: number; cloud: ProcessedPointCloud }
+  | { type: 'error'; id: number; message: string };
+
+// --- Stereo worker protocol ---
+
+export interface StereoRequest {
+  type: 'stereo';
+  id: number;
+  leftSrc: string;
+  rightSrc: string;
+  maxSize: number; // Longest side the pair is matched at
+  options: StereoOptions;
+}
+
+export type StereoStage = 'decode' | 'rectify' | 'match' | 'refine';
+
+export type StereoResponse =
+  | { type: 'progress'; id: number; stage: StereoStage; progress: number }
+  | { type: 'result'; id: number; result: StereoResult }
+  | { type: 'error'; id: number; message: string };
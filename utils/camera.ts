@@ -0,0 +1,26 @@
+import { CameraModel } from "../types";
+
+// Width of a full-frame 35mm sensor, used for 35mm-equivalent focal lengths
+const FULL_FRAME_WIDTH_MM = 36;
+
+export const DEFAULT_CAMERA: CameraModel = {
+  projection: 'orthographic',
+  horizontalFov: 65, // Typical phone main camera (~28mm equivalent)
+  principalPoint: { x: 0.5, y: 0.5 }
+};
+
+export const focalLength35mmToFov = (focalLength35mm: number): number =>
+  2 * Math.atan(FULL_FRAME_WIDTH_MM / (2 * focalLength35mm)) * 180 / Math.PI;
+
+export const fovToFocalLength35mm = (horizontalFov: number): number =>
+  FULL_FRAME_WIDTH_MM / (2 * Math.tan((horizontalFov * Math.PI / 180) / 2));
+
+// Effective horizontal FOV in degrees, honouring an explicit focal length
+export const getHorizontalFov = (camera: CameraModel): number =>
+  camera.focalLength35mm && camera.focalLength35mm > 0
+    ? focalLength35mmToFov(camera.focalLength35mm)
+    : camera.horizontalFov;
+
+// Focal length in pixels for an image of the given width
+export const getFocalLengthPx = (camera: CameraModel, imageWidth: number): number =>
+  (imageWidth / 2) / Math.tan((getHorizontalFov(camera) * Math.PI / 180) / 2);
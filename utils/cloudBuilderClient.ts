@@ -0,0 +1,100 @@
+import {
+  ProcessedPointCloud,
+  CloudBuildOptions,
+  CloudBuildResponse,
+  CloudBuildStage,
+  CloudWorkerRequest,
+  DepthEncoding,
+  SimilarityTransform
+} from "../types";
+
+export interface CloudBuildParams {
+  colorSrc: string;
+  depthSrc: string;
+  depthEncoding: DepthEncoding;
+  targetResolution: number;
+  samplingFactor: number;
+  isVoxelMode: boolean;
+  options: CloudBuildOptions;
+}
+
+export interface CloudBuildCallbacks {
+  // Overall progress 0..1 across decode, resize and build
+  onProgress?: (progress: number, stage: CloudBuildStage) => void;
+  signal?: AbortSignal;
+}
+
+let nextRequestId = 1;
+
+export const createAbortError = (message = 'Cloud build cancelled') => new DOMException(message, 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export interface CloudMergeParams {
+  clouds: ProcessedPointCloud[];
+  transforms: SimilarityTransform[];
+  dedupeSize: number;
+  octree: boolean;
+}
+
+// Runs one request in a Web Worker. Buffers come back as transferables, so no copy is made
+// on the way to the main thread. The work is synchronous inside the worker, so each request
+// gets its own worker and cancelling simply terminates it.
+const runInWorker = (
+  params: { type: 'build' } & CloudBuildParams | { type: 'merge' } & CloudMergeParams,
+  { onProgress, signal }: CloudBuildCallbacks
+): Promise<ProcessedPointCloud> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const worker = new Worker(new URL('../workers/cloudBuilder.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<CloudBuildResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.stage);
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve(message.cloud);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || "Cloud builder worker crashed"));
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: CloudWorkerRequest = { id, ...params };
+    worker.postMessage(request);
+  });
+};
+
+// Decodes, resizes and builds the point cloud in a Web Worker
+export const buildPointCloudInWorker = (params: CloudBuildParams, callbacks: CloudBuildCallbacks = {}) =>
+  runInWorker({ type: 'build', ...params }, callbacks);
+
+// Fusion merge (transform, dedupe, optional octree) off the main thread. The input clouds are
+// copied to the worker, not transferred, since they stay on screen until the result arrives.
+export const mergeCloudsInWorker = (params: CloudMergeParams, callbacks: CloudBuildCallbacks = {}) =>
+  runInWorker({ type: 'merge', ...params }, callbacks);
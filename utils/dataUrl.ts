@@ -0,0 +1,18 @@
+// Decode the payload of a base64 data URL (or bare base64) into raw bytes
+export const dataUrlToBytes = (src: string): Uint8Array => {
+  const base64 = src.split(',')[1] || src;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Encode raw bytes as a base64 data URL with the given MIME type
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
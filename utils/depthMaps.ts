@@ -0,0 +1,350 @@
+import { DepthBuffer, DepthEncoding } from "../types";
+import { dataUrlToBytes, bytesToDataUrl } from "./dataUrl";
+
+// Depth maps are carried through the pipeline as normalised Float32 buffers
+// (0 = far, 1 = near) so 16-bit and float sources keep their precision.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((v, i) => bytes[i] === v);
+
+// PFM files start with "PF\n" (RGB) or "Pf\n" (grayscale)
+const isPfm = (bytes: Uint8Array) =>
+  bytes[0] === 0x50 && (bytes[1] === 0x46 || bytes[1] === 0x66) && (bytes[2] === 0x0A || bytes[2] === 0x0D || bytes[2] === 0x20);
+
+// Bit depth of a PNG from its IHDR chunk (always the first chunk)
+const readPngBitDepth = (bytes: Uint8Array): number => bytes[24];
+
+// Rescales arbitrary finite values to 0..1; non-finite samples become 0 (far)
+const normaliseInPlace = (data: Float32Array) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    if (!Number.isFinite(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max - min;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    data[i] = Number.isFinite(v) && range > 0 ? (v - min) / range : 0;
+  }
+};
+
+// --- PFM (Portable Float Map) ---
+
+export const parsePFM = (bytes: Uint8Array): DepthBuffer => {
+  // Header: three whitespace-separated tokens (type, "width height", scale)
+  const tokens: string[] = [];
+  let offset = 0;
+  let current = '';
+  while (tokens.length < 4 && offset < bytes.length) {
+    const ch = String.fromCharCode(bytes[offset++]);
+    if (/\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  const [type, widthToken, heightToken, scaleToken] = tokens;
+  const channels = type === 'PF' ? 3 : 1;
+  const width = parseInt(widthToken);
+  const height = parseInt(heightToken);
+  const littleEndian = parseFloat(scaleToken) < 0;
+
+  if (!width || !height || offset + width * height * channels * 4 > bytes.length) {
+    throw new Error("Invalid PFM file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    // PFM rows are stored bottom-to-top
+    const row = height - 1 - y;
+    for (let x = 0; x < width; x++) {
+      data[row * width + x] = view.getFloat32(((y * width + x) * channels) * 4, littleEndian);
+    }
+  }
+
+  // Larger values are treated as nearer (disparity-style, like white = close).
+  // Maps already in 0..1 (e.g. our own exports) are kept as-is.
+  // Metric 16-bit PNGs are distances instead and get inverted (see normalisePNG16).
+  let inUnitRange = true;
+  for (let i = 0; i < data.length && inUnitRange; i++) {
+    if (!(data[i] >= 0 && data[i] <= 1)) inUnitRange = false;
+  }
+  if (!inUnitRange) normaliseInPlace(data);
+  return { data, width, height };
+};
+
+export const encodePFM = (buffer: DepthBuffer): string => {
+  const header = new TextEncoder().encode(`Pf\n${buffer.width} ${buffer.height}\n-1.0\n`);
+  const bytes = new Uint8Array(header.length + buffer.width * buffer.height * 4);
+  bytes.set(header);
+
+  const view = new DataView(bytes.buffer, header.length);
+  for (let y = 0; y < buffer.height; y++) {
+    const row = buffer.height - 1 - y;
+    for (let x = 0; x < buffer.width; x++) {
+      view.setFloat32((y * buffer.width + x) * 4, buffer.data[row * buffer.width + x], true);
+    }
+  }
+  return bytesToDataUrl(bytes, 'application/x-pfm');
+};
+
+// --- 16-bit PNG (browsers only hand 8 bits per channel to canvas) ---
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// 16-bit maps that use less than this share of 0..65535 hold metric values (e.g. millimetres
+// from LiDAR exports) rather than a relative depth scaled to the full range
+const PNG16_METRIC_SPAN = 0.5;
+
+// Value the farthest valid pixel of a metric map gets; 0 stays reserved for no data
+const PNG16_METRIC_FAR = 1 / 255;
+
+// Metric 16-bit values only cover a few thousand codes and would come out nearly flat, and they
+// are distances: larger = farther, the opposite of our 1 = near / 0 = far convention.
+// Invert and rescale them to the observed range, into (0, 1] so 0 still means no data.
+const normalisePNG16 = (data: Float32Array) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    if (v === 0) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max - min;
+  if (!(range > 0) || range >= PNG16_METRIC_SPAN) return;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== 0) data[i] = 1 - (data[i] - min) / range * (1 - PNG16_METRIC_FAR);
+  }
+};
+
+export const decodePNG16 = async (bytes: Uint8Array): Promise<DepthBuffer> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  let width = 0, height = 0, colorType = 0, interlace = 0;
+  const idat: Uint8Array[] = [];
+
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (interlace !== 0) throw new Error("Interlaced 16-bit PNG is not supported");
+  const channels = ({ 0: 1, 2: 3, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+
+  const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+  let pos = 0;
+  for (const c of idat) { compressed.set(c, pos); pos += c.length; }
+  const raw = await inflate(compressed);
+
+  const bpp = channels * 2;
+  const stride = width * bpp;
+  const previous = new Uint8Array(stride);
+  const line = new Uint8Array(stride);
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    const filter = raw[start];
+    for (let i = 0; i < stride; i++) {
+      const value = raw[start + 1 + i];
+      const a = i >= bpp ? line[i - bpp] : 0;
+      const b = previous[i];
+      const c = i >= bpp ? previous[i - bpp] : 0;
+      switch (filter) {
+        case 1: line[i] = value + a; break;
+        case 2: line[i] = value + b; break;
+        case 3: line[i] = value + ((a + b) >> 1); break;
+        case 4: line[i] = value + paeth(a, b, c); break;
+        default: line[i] = value;
+      }
+    }
+    // First channel of each pixel, big-endian 16-bit
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = ((line[x * bpp] << 8) | line[x * bpp + 1]) / 65535;
+    }
+    previous.set(line);
+  }
+
+  normalisePNG16(data);
+  return { data, width, height };
+};
+
+// --- 8-bit images (grayscale or RG-packed 16-bit) ---
+
+const decodeBitmapDepth = async (bytes: Uint8Array, encoding: DepthEncoding): Promise<DepthBuffer> => {
+  const bitmap = await createImageBitmap(new Blob([bytes]));
+  const { width, height } = bitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get OffscreenCanvas context");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = encoding === 'rg16'
+      ? (pixels[i * 4] * 256 + pixels[i * 4 + 1]) / 65535
+      : pixels[i * 4] / 255;
+  }
+  return { data, width, height };
+};
+
+// Decodes any supported depth source (data URL) into a normalised Float32 buffer.
+// 16-bit PNG and PFM are detected from their headers; other images use the given encoding.
+export const decodeDepthSource = async (src: string, encoding: DepthEncoding = 'gray8'): Promise<DepthBuffer> => {
+  const bytes = dataUrlToBytes(src);
+
+  if (isPfm(bytes)) return parsePFM(bytes);
+  if (isPng(bytes) && readPngBitDepth(bytes) === 16) {
+    try {
+      return await decodePNG16(bytes);
+    } catch (error) {
+      console.warn("16-bit PNG decode failed, falling back to 8-bit", error);
+    }
+  }
+  return decodeBitmapDepth(bytes, encoding);
+};
+
+// Resamples a depth buffer: area average when shrinking, bilinear when enlarging
+export const resampleDepthBuffer = (source: DepthBuffer, width: number, height: number): Float32Array => {
+  if (source.width === width && source.height === height) return source.data;
+
+  const out = new Float32Array(width * height);
+  const scaleX = source.width / width;
+  const scaleY = source.height / height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (scaleX > 1 || scaleY > 1) {
+        const x0 = Math.floor(x * scaleX), x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+        const y0 = Math.floor(y * scaleY), y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+        let sum = 0;
+        for (let sy = y0; sy < Math.min(y1, source.height); sy++) {
+          for (let sx = x0; sx < Math.min(x1, source.width); sx++) sum += source.data[sy * source.width + sx];
+        }
+        out[y * width + x] = sum / ((Math.min(x1, source.width) - x0) * (Math.min(y1, source.height) - y0));
+      } else {
+        const sx = Math.max(0, (x + 0.5) * scaleX - 0.5);
+        const sy = Math.max(0, (y + 0.5) * scaleY - 0.5);
+        const ix = Math.min(source.width - 1, Math.floor(sx));
+        const iy = Math.min(source.height - 1, Math.floor(sy));
+        const ix1 = Math.min(source.width - 1, ix + 1);
+        const iy1 = Math.min(source.height - 1, iy + 1);
+        const fx = sx - ix, fy = sy - iy;
+        const top = source.data[iy * source.width + ix] * (1 - fx) + source.data[iy * source.width + ix1] * fx;
+        const bottom = source.data[iy1 * source.width + ix] * (1 - fx) + source.data[iy1 * source.width + ix1] * fx;
+        out[y * width + x] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return out;
+};
+
+// Renders a depth buffer as an 8-bit grayscale PNG data URL (for previews only)
+export const depthBufferToDataUrl = (buffer: DepthBuffer): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const imageData = ctx.createImageData(buffer.width, buffer.height);
+  for (let i = 0; i < buffer.data.length; i++) {
+    const v = Math.round(Math.max(0, Math.min(1, buffer.data[i])) * 255);
+    imageData.data[i * 4] = v;
+    imageData.data[i * 4 + 1] = v;
+    imageData.data[i * 4 + 2] = v;
+    imageData.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export interface DepthAlignment {
+  // Depth source to feed into the build (the original upload when no crop was needed)
+  src: string;
+  width: number;
+  height: number;
+  cropped: boolean;
+}
+
+// Relative aspect difference tolerated before the depth map gets cropped
+export const ASPECT_TOLERANCE = 0.01;
+const MIN_DEPTH_SIZE = 16;
+
+export const cropDepthBuffer = (buffer: DepthBuffer, x0: number, y0: number, width: number, height: number): DepthBuffer => {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (y0 + y) * buffer.width + x0;
+    data.set(buffer.data.subarray(start, start + width), y * width);
+  }
+  return { data, width, height };
+};
+
+// Validates a user-supplied depth map against the color image and aligns it.
+// Resolution differences are fine (the builder resamples depth to the color grid),
+// but a different aspect ratio would stretch the depth, so it is center-cropped
+// to the image aspect and re-encoded as PFM to keep full precision.
+export const alignDepthToImage = async (
+  depthSrc: string,
+  imageWidth: number,
+  imageHeight: number,
+  encoding: DepthEncoding = 'gray8'
+): Promise<DepthAlignment> => {
+  const buffer = await decodeDepthSource(depthSrc, encoding);
+  if (buffer.width < MIN_DEPTH_SIZE || buffer.height < MIN_DEPTH_SIZE) {
+    throw new Error(`Depth map is too small (${buffer.width}x${buffer.height})`);
+  }
+
+  const imageAspect = imageWidth / imageHeight;
+  const depthAspect = buffer.width / buffer.height;
+  if (Math.abs(depthAspect / imageAspect - 1) <= ASPECT_TOLERANCE) {
+    return { src: depthSrc, width: buffer.width, height: buffer.height, cropped: false };
+  }
+
+  // Portrait vs landscape usually means a missing EXIF rotation, which cropping cannot fix
+  if (imageAspect !== 1 && Math.abs(depthAspect * imageAspect - 1) <= ASPECT_TOLERANCE) {
+    throw new Error("Depth map is rotated relative to the image");
+  }
+
+  const width = depthAspect > imageAspect ? Math.round(buffer.height * imageAspect) : buffer.width;
+  const height = depthAspect > imageAspect ? buffer.height : Math.round(buffer.width / imageAspect);
+  const cropped = cropDepthBuffer(
+    buffer,
+    Math.floor((buffer.width - width) / 2),
+    Math.floor((buffer.height - height) / 2),
+    width,
+    height
+  );
+  return { src: encodePFM(cropped), width, height, cropped: true };
+};
@@ -0,0 +1,131 @@
+import { DepthCurvePoint, DepthInterpretation, DepthResponse } from "../types";
+
+export const DEFAULT_DEPTH_RESPONSE: DepthResponse = {
+  interpretation: 'linear',
+  curve: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+  invert: false
+};
+
+// Far / near distance ratio assumed when converting disparity or log-encoded maps.
+// Monocular estimators are relative anyway; 20x keeps the background from exploding.
+const DEPTH_RANGE_RATIO = 20;
+
+// Converts a normalised gray value (1 = near) to linear nearness (1 = near, 0 = far)
+export const interpretDepth = (value: number, interpretation: DepthInterpretation): number => {
+  if (interpretation === 'linear') return value;
+
+  // Metric depth in units of the near plane: 1 (near) .. DEPTH_RANGE_RATIO (far)
+  const distance = interpretation === 'disparity'
+    // Disparity is proportional to 1 / depth
+    ? 1 / (1 / DEPTH_RANGE_RATIO + value * (1 - 1 / DEPTH_RANGE_RATIO))
+    // Log maps store log(depth) linearly between the near and far planes
+    : Math.exp((1 - value) * Math.log(DEPTH_RANGE_RATIO));
+
+  return (DEPTH_RANGE_RATIO - distance) / (DEPTH_RANGE_RATIO - 1);
+};
+
+// Control points sorted by x, with the endpoints pinned to x = 0 and x = 1
+export const normaliseCurve = (points: DepthCurvePoint[]): DepthCurvePoint[] => {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const sorted = points
+    .map(p => ({ x: clamp(p.x), y: clamp(p.y) }))
+    .sort((a, b) => a.x - b.x);
+  if (sorted.length === 0 || sorted[0].x > 0) sorted.unshift({ x: 0, y: sorted[0]?.y ?? 0 });
+  if (sorted[sorted.length - 1].x < 1) sorted.push({ x: 1, y: sorted[sorted.length - 1].y });
+  return sorted;
+};
+
+// Monotone cubic (Fritsch-Carlson) interpolation: smooth, never overshoots the control points
+export const createCurveEvaluator = (points: DepthCurvePoint[]): ((x: number) => number) => {
+  const pts = normaliseCurve(points);
+  const n = pts.length;
+  if (n === 2 && pts[0].y === 0 && pts[1].y === 1) return (x) => x;
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = pts[i + 1].x - pts[i].x;
+    slopes.push(dx > 0 ? (pts[i + 1].y - pts[i].y) / dx : 0);
+  }
+
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+  }
+  tangents.push(slopes[n - 2]);
+
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  return (x) => {
+    if (x <= pts[0].x) return pts[0].y;
+    if (x >= pts[n - 1].x) return pts[n - 1].y;
+
+    let i = 0;
+    while (i < n - 2 && x > pts[i + 1].x) i++;
+
+    const dx = pts[i + 1].x - pts[i].x;
+    if (dx <= 0) return pts[i + 1].y;
+    const t = (x - pts[i].x) / dx;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * pts[i].y
+      + (t3 - 2 * t2 + t) * dx * tangents[i]
+      + (-2 * t3 + 3 * t2) * pts[i + 1].y
+      + (t3 - t2) * dx * tangents[i + 1];
+  };
+};
+
+// Maps every depth sample through interpretation -> curve -> invert.
+// The curve is baked into a lookup table since it runs once per pixel.
+export const applyDepthResponse = (depth: Float32Array, response: DepthResponse): Float32Array => {
+  const lutSize = 4096;
+  const curve = createCurveEvaluator(response.curve);
+  const lut = new Float32Array(lutSize + 1);
+  for (let i = 0; i <= lutSize; i++) {
+    const v = Math.max(0, Math.min(1, curve(interpretDepth(i / lutSize, response.interpretation))));
+    lut[i] = response.invert ? 1 - v : v;
+  }
+
+  const out = new Float32Array(depth.length);
+  for (let i = 0; i < depth.length; i++) {
+    // Linear interpolation between table entries keeps 16-bit precision
+    const pos = Math.max(0, Math.min(1, depth[i])) * lutSize;
+    const idx = Math.min(lutSize - 1, Math.floor(pos));
+    const frac = pos - idx;
+    out[i] = lut[idx] * (1 - frac) + lut[idx + 1] * frac;
+  }
+  return out;
+};
+
+export const isIdentityResponse = (response: DepthResponse) =>
+  response.interpretation === 'linear' &&
+  !response.invert &&
+  normaliseCurve(response.curve).every(p => p.x === p.y);
+
+// Histogram of interpreted depth values (the curve editor's input axis), normalised to the tallest bin
+export const computeDepthHistogram = (
+  depth: Float32Array,
+  interpretation: DepthInterpretation,
+  bins: number = 64
+): number[] => {
+  const counts = new Array<number>(bins).fill(0);
+  for (let i = 0; i < depth.length; i++) {
+    const v = interpretDepth(Math.max(0, Math.min(1, depth[i])), interpretation);
+    counts[Math.min(bins - 1, Math.floor(v * bins))]++;
+  }
+  const max = Math.max(1, ...counts);
+  return counts.map(c => c / max);
+};
@@ -0,0 +1,204 @@
+import { DepthBuffer } from "../types";
+import { loadImage, luminance } from "./imageProcessing";
+import { ASPECT_TOLERANCE, cropDepthBuffer, encodePFM, resampleDepthBuffer } from "./depthMaps";
+
+// Checks for depth maps returned by a model: they can come back at another aspect ratio,
+// padded with bars, tinted or flat. Fixable problems are corrected and reported as warnings;
+// the rest make the map unusable so the caller can retry with another model.
+
+export type DepthFit = 'none' | 'letterbox' | 'stretch' | 'crop';
+
+export interface DepthValidation {
+  usable: boolean;
+  reason?: string; // Why it is unusable
+  warnings: string[];
+  fit: DepthFit;
+  buffer: DepthBuffer; // Aligned to the source image aspect
+  modified: boolean; // Whether buffer differs from the decoded input
+}
+
+// Mean chroma (max - min channel) above which the map is tinted, and above which it is a photo
+const TINT_CHROMA = 0.03;
+const PHOTO_CHROMA = 0.12;
+// 2nd-98th percentile spread: below LOW_RANGE the contrast is stretched, below FLAT_RANGE it is unusable
+const LOW_RANGE = 0.15;
+const FLAT_RANGE = 0.02;
+// Std-dev and drift of a row / column that counts as letterbox padding
+const BAR_TOLERANCE = 0.01;
+// Relative aspect error still accepted after removing bars
+const LETTERBOX_TOLERANCE = 0.03;
+// Longest side of the grid on which candidate fits are compared with the image
+const SCORE_SIZE = 96;
+
+// Mean chroma of the map (0 = perfectly gray)
+const meanChroma = (rgba: Uint8ClampedArray, count: number): number => {
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+    sum += Math.max(r, g, b) - Math.min(r, g, b);
+  }
+  return sum / (count * 255);
+};
+
+const percentiles = (data: Float32Array, low: number, high: number) => {
+  const step = Math.max(1, Math.floor(data.length / 20000));
+  const sample: number[] = [];
+  for (let i = 0; i < data.length; i += step) sample.push(data[i]);
+  sample.sort((a, b) => a - b);
+  const at = (p: number) => sample[Math.min(sample.length - 1, Math.floor(p * sample.length))];
+  return { low: at(low), high: at(high) };
+};
+
+// Number of uniform, same-valued lines from one edge (rows when horizontal, else columns)
+const countBars = (buffer: DepthBuffer, horizontal: boolean, fromEnd: boolean): number => {
+  const { data, width, height } = buffer;
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  let first = NaN;
+  for (let k = 0; k < lines / 2; k++) {
+    const line = fromEnd ? lines - 1 - k : k;
+    let sum = 0, sumSq = 0;
+    for (let j = 0; j < length; j++) {
+      const v = horizontal ? data[line * width + j] : data[j * width + line];
+      sum += v;
+      sumSq += v * v;
+    }
+    const mean = sum / length;
+    const std = Math.sqrt(Math.max(0, sumSq / length - mean * mean));
+    if (Number.isNaN(first)) first = mean;
+    if (std > BAR_TOLERANCE || Math.abs(mean - first) > BAR_TOLERANCE) return k;
+  }
+  return 0; // Uniform through the middle: a flat map, not bars
+};
+
+// Bars on the sides that, once removed, leave the image aspect (letterbox or pillarbox)
+const findLetterbox = (buffer: DepthBuffer, imageAspect: number): DepthBuffer | null => {
+  const horizontal = buffer.width / buffer.height < imageAspect;
+  const start = countBars(buffer, horizontal, false);
+  const end = countBars(buffer, horizontal, true);
+  if (start + end === 0) return null;
+
+  const width = horizontal ? buffer.width : buffer.width - start - end;
+  const height = horizontal ? buffer.height - start - end : buffer.height;
+  if (width < 1 || height < 1 || Math.abs(width / height / imageAspect - 1) > LETTERBOX_TOLERANCE) return null;
+  return cropDepthBuffer(buffer, horizontal ? 0 : start, horizontal ? start : 0, width, height);
+};
+
+const centerCrop = (buffer: DepthBuffer, imageAspect: number): DepthBuffer => {
+  const depthAspect = buffer.width / buffer.height;
+  const width = depthAspect > imageAspect ? Math.round(buffer.height * imageAspect) : buffer.width;
+  const height = depthAspect > imageAspect ? buffer.height : Math.round(buffer.width / imageAspect);
+  return cropDepthBuffer(buffer, Math.floor((buffer.width - width) / 2), Math.floor((buffer.height - height) / 2), width, height);
+};
+
+const gradientMagnitude = (data: Float32Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      out[i] = Math.hypot(data[i + 1] - data[i - 1], data[i + width] - data[i - width]);
+    }
+  }
+  return out;
+};
+
+// Normalised cross-correlation of depth and image edges on the image grid
+const edgeAgreement = (candidate: DepthBuffer, image: DepthBuffer): number => {
+  const depth = gradientMagnitude(resampleDepthBuffer(candidate, image.width, image.height), image.width, image.height);
+  const edges = gradientMagnitude(image.data, image.width, image.height);
+  let ma = 0, mb = 0;
+  for (let i = 0; i < depth.length; i++) {
+    ma += depth[i];
+    mb += edges[i];
+  }
+  ma /= depth.length;
+  mb /= depth.length;
+  let ab = 0, aa = 0, bb = 0;
+  for (let i = 0; i < depth.length; i++) {
+    const a = depth[i] - ma, b = edges[i] - mb;
+    ab += a * b;
+    aa += a * a;
+    bb += b * b;
+  }
+  return aa > 0 && bb > 0 ? ab / Math.sqrt(aa * bb) : 0;
+};
+
+// Core check on decoded pixels. imageLuminance is the source image on a small grid
+// (its aspect is the target) and is used to choose between stretching and cropping.
+export const checkDepthPixels = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  imageLuminance: DepthBuffer
+): DepthValidation => {
+  const count = width * height;
+  const warnings: string[] = [];
+  const decoded: DepthBuffer = { data: luminance(rgba, count), width, height };
+  const unusable = (reason: string): DepthValidation =>
+    ({ usable: false, reason, warnings, fit: 'none', buffer: decoded, modified: false });
+
+  const chroma = meanChroma(rgba, count);
+  if (chroma > PHOTO_CHROMA) return unusable("The model returned a colour image, not a depth map");
+  if (chroma > TINT_CHROMA) warnings.push("Tinted depth map converted to grayscale");
+
+  const imageAspect = imageLuminance.width / imageLuminance.height;
+  const depthAspect = width / height;
+  let buffer = decoded;
+  let fit: DepthFit = 'none';
+
+  if (Math.abs(depthAspect / imageAspect - 1) > ASPECT_TOLERANCE) {
+    const letterboxed = findLetterbox(decoded, imageAspect);
+    if (letterboxed) {
+      buffer = letterboxed;
+      fit = 'letterbox';
+      warnings.push(`Padding removed (${width}x${height} → ${letterboxed.width}x${letterboxed.height})`);
+    } else if (imageAspect !== 1 && Math.abs(depthAspect * imageAspect - 1) <= ASPECT_TOLERANCE) {
+      return unusable("Depth map is rotated relative to the image");
+    } else {
+      // A model answering at its own fixed size either squashed the whole frame or cropped it;
+      // keep whichever lines up better with the edges of the photo
+      const cropped = centerCrop(decoded, imageAspect);
+      const cropWins = edgeAgreement(cropped, imageLuminance) > edgeAgreement(decoded, imageLuminance);
+      buffer = cropWins ? cropped : decoded;
+      fit = cropWins ? 'crop' : 'stretch';
+      warnings.push(`Aspect ${width}x${height} differs from the image; ${cropWins ? 'center-cropped' : 'stretched'} to fit`);
+    }
+  }
+
+  const { low, high } = percentiles(buffer.data, 0.02, 0.98);
+  const range = high - low;
+  if (range < FLAT_RANGE) return unusable("Depth map is nearly constant");
+  if (range < LOW_RANGE) {
+    const data = new Float32Array(buffer.data.length);
+    for (let i = 0; i < data.length; i++) data[i] = Math.max(0, Math.min(1, (buffer.data[i] - low) / range));
+    buffer = { data, width: buffer.width, height: buffer.height };
+    warnings.push(`Low depth contrast (${Math.round(range * 100)}%) stretched`);
+  }
+
+  return { usable: true, warnings, fit, buffer, modified: buffer !== decoded || chroma > TINT_CHROMA };
+};
+
+const readPixels = async (src: string, maxSize?: number) => {
+  const img = await loadImage(src);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height };
+};
+
+export interface ValidatedDepth extends Omit<DepthValidation, 'buffer' | 'modified'> {
+  // Depth source to build from: the original when nothing changed, otherwise a PFM
+  src: string;
+}
+
+// Validates an 8-bit depth image (data URL) from a model against its source image
+export const validateDepthMap = async (depthSrc: string, imageSrc: string): Promise<ValidatedDepth> => {
+  const [depth, image] = await Promise.all([readPixels(depthSrc), readPixels(imageSrc, SCORE_SIZE)]);
+  const imageLuminance = { data: luminance(image.data, image.width * image.height), width: image.width, height: image.height };
+  const { buffer, modified, ...result } = checkDepthPixels(depth.data, depth.width, depth.height, imageLuminance);
+  return { ...result, src: modified ? encodePFM(buffer) : depthSrc };
+};
@@ -0,0 +1,77 @@
+import { dataUrlToBytes } from "./dataUrl";
+
+export interface ExifCameraInfo {
+  // Physical lens focal length in millimetres (tag 0x920A)
+  focalLengthMm?: number;
+  // 35mm-equivalent focal length (tag 0xA405)
+  focalLength35mm?: number;
+}
+
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_FOCAL_LENGTH = 0x920A;
+const TAG_FOCAL_LENGTH_35MM = 0xA405;
+
+// Walks one TIFF IFD and returns the raw entries we care about
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const entries = new Map<number, { type: number; valueOffset: number }>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    entries.set(tag, { type, valueOffset: entry + 8 });
+  }
+  return entries;
+};
+
+// Extracts focal length information from a JPEG's EXIF block, if present
+export const readExifCameraInfo = (src: string): ExifCameraInfo | null => {
+  try {
+    const bytes = dataUrlToBytes(src);
+    const view = new DataView(bytes.buffer);
+    if (view.getUint16(0) !== 0xFFD8) return null; // Not a JPEG
+
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+        const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+        if (!exifPointer) return null;
+        const exif = readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little);
+
+        const info: ExifCameraInfo = {};
+        const focal = exif.get(TAG_FOCAL_LENGTH);
+        if (focal) {
+          // RATIONAL: value stored at an offset from the TIFF header
+          const ptr = tiffStart + view.getUint32(focal.valueOffset, little);
+          const denominator = view.getUint32(ptr + 4, little);
+          if (denominator > 0) info.focalLengthMm = view.getUint32(ptr, little) / denominator;
+        }
+        const focal35 = exif.get(TAG_FOCAL_LENGTH_35MM);
+        if (focal35) {
+          const value = view.getUint16(focal35.valueOffset, little);
+          if (value > 0) info.focalLength35mm = value;
+        }
+        return info.focalLengthMm || info.focalLength35mm ? info : null;
+      }
+
+      // Start of scan: no more metadata segments
+      if (marker === 0xFFDA) break;
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.warn("Could not read EXIF data", error);
+  }
+  return null;
+};
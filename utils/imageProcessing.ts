@@ -1,4 +1,8 @@
-import { ProcessedPointCloud } from "../types";
+import { ProcessedPointCloud, CloudBuildOptions, EdgeFilter, DepthRefinement } from "../types";
+import { getFocalLengthPx } from "./camera";
+import { createSamplingMask } from "./sampling";
+import { applyDepthResponse, isIdentityResponse } from "./depthResponse";
+import { quantizeColors } from "./palette";
 
 // Helper to load an image from a base64 string
 export const loadImage = (src: string): Promise<HTMLImageElement> => {
@@ -11,11 +15,10 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => {
   });
 };
 
-// Helper to resize image to max dimensions to keep performance high
-export const resizeImage = (img: HTMLImageElement, maxSize: number = 512): HTMLCanvasElement => {
-  const canvas = document.createElement('canvas');
-  let width = img.width;
-  let height = img.height;
+// Helper to fit dimensions inside a square of maxSize, keeping the aspect ratio
+export const fitDimensions = (sourceWidth: number, sourceHeight: number, maxSize: number) => {
+  let width = sourceWidth;
+  let height = sourceHeight;
 
   if (width > height) {
     if (width > maxSize) {
@@ -29,8 +32,16 @@ export const resizeImage = (img: HTMLImageElement, maxSize: number = 512): HTMLC
     }
   }
 
-  canvas.width = Math.floor(width);
-  canvas.height = Math.floor(height);
+  return { width: Math.floor(width), height: Math.floor(height) };
+};
+
+// Helper to resize image to max dimensions to keep performance high
+export const resizeImage = (img: HTMLImageElement, maxSize: number = 512): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  const { width, height } = fitDimensions(img.width, img.height, maxSize);
+
+  canvas.width = width;
+  canvas.height = height;
   const ctx = canvas.getContext('2d');
   
   if (ctx) {
@@ -42,12 +53,266 @@ export const resizeImage = (img: HTMLImageElement, maxSize: number = 512): HTMLC
   return canvas;
 };
 
+// --- DEPTH REFINEMENT ---
+
+// Mean over a (2r+1)^2 window via an integral image; windows are clipped at the borders
+export const boxFilter = (src: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += src[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius), y1 = Math.min(height - 1, y + radius) + 1;
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius), x1 = Math.min(width - 1, x + radius) + 1;
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      out[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+// Normalised luminance of an RGBA buffer, used as the filter guide
+export const luminance = (colorData: Uint8ClampedArray, count: number): Float32Array => {
+  const lum = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    lum[i] = (0.299 * colorData[i * 4] + 0.587 * colorData[i * 4 + 1] + 0.114 * colorData[i * 4 + 2]) / 255;
+  }
+  return lum;
+};
+
+// 3x3 median, removes isolated speckles without softening edges
+export const medianFilter3x3 = (depth: Float32Array, width: number, height: number): Float32Array => {
+  const out = new Float32Array(depth.length);
+  const window = new Float32Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = Math.min(width - 1, Math.max(0, x + dx));
+          window[n++] = depth[ny * width + nx];
+        }
+      }
+      window.sort();
+      out[y * width + x] = window[4];
+    }
+  }
+  return out;
+};
+
+// Guided filter (He et al.) with the color luminance as guide: depth edges snap to
+// image edges while flat color regions get smoothed.
+export const guidedFilter = (
+  depth: Float32Array,
+  guide: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  epsilon: number = 1e-3
+): Float32Array => {
+  const count = width * height;
+  const guideSq = new Float32Array(count);
+  const guideDepth = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    guideSq[i] = guide[i] * guide[i];
+    guideDepth[i] = guide[i] * depth[i];
+  }
+
+  const meanI = boxFilter(guide, width, height, radius);
+  const meanP = boxFilter(depth, width, height, radius);
+  const meanII = boxFilter(guideSq, width, height, radius);
+  const meanIP = boxFilter(guideDepth, width, height, radius);
+
+  const a = new Float32Array(count);
+  const b = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const variance = meanII[i] - meanI[i] * meanI[i];
+    const covariance = meanIP[i] - meanI[i] * meanP[i];
+    a[i] = covariance / (variance + epsilon);
+    b[i] = meanP[i] - a[i] * meanI[i];
+  }
+
+  const meanA = boxFilter(a, width, height, radius);
+  const meanB = boxFilter(b, width, height, radius);
+  const out = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = meanA[i] * guide[i] + meanB[i];
+  }
+  return out;
+};
+
+// Joint (cross) bilateral filter: spatial Gaussian weighted by color similarity in the guide
+export const jointBilateralFilter = (
+  depth: Float32Array,
+  colorData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  sigmaColor: number = 0.1
+): Float32Array => {
+  const out = new Float32Array(depth.length);
+  const sigmaSpatial = Math.max(1, radius / 2);
+  const spatialWeights = new Float32Array((2 * radius + 1) * (2 * radius + 1));
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      spatialWeights[(dy + radius) * (2 * radius + 1) + dx + radius] =
+        Math.exp(-(dx * dx + dy * dy) / (2 * sigmaSpatial * sigmaSpatial));
+    }
+  }
+  const colorScale = -1 / (2 * sigmaColor * sigmaColor * 255 * 255);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const c = (y * width + x) * 4;
+      let sum = 0;
+      let weightSum = 0;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = ny * width + nx;
+          const dr = colorData[n * 4] - colorData[c];
+          const dg = colorData[n * 4 + 1] - colorData[c + 1];
+          const db = colorData[n * 4 + 2] - colorData[c + 2];
+          const weight = spatialWeights[(dy + radius) * (2 * radius + 1) + dx + radius] *
+            Math.exp((dr * dr + dg * dg + db * db) / 3 * colorScale);
+          sum += depth[n] * weight;
+          weightSum += weight;
+        }
+      }
+      out[y * width + x] = weightSum > 0 ? sum / weightSum : depth[y * width + x];
+    }
+  }
+  return out;
+};
+
+// Color-guided refinement stage applied to the normalised depth before the cloud is built
+export const refineDepthMap = (
+  depth: Float32Array,
+  colorData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  refinement: DepthRefinement
+): Float32Array => {
+  let result = refinement.median ? medianFilter3x3(depth, width, height) : depth;
+  if (refinement.method === 'none' || refinement.strength <= 0) return result;
+
+  const radius = Math.max(1, Math.round(refinement.radius));
+  const filtered = refinement.method === 'guided'
+    ? guidedFilter(result, luminance(colorData, width * height), width, height, radius)
+    : jointBilateralFilter(result, colorData, width, height, radius);
+
+  const strength = Math.min(1, refinement.strength);
+  const blended = new Float32Array(result.length);
+  for (let i = 0; i < result.length; i++) {
+    blended[i] = Math.min(1, Math.max(0, result[i] + (filtered[i] - result[i]) * strength));
+  }
+  return blended;
+};
+
+// Flying-pixel filter: pixels whose depth jumps by more than the threshold to any of their
+// 8 neighbours sit on a silhouette. "drop" marks them for removal, "snap" moves them onto
+// whichever side of the edge (nearest or farthest neighbour) they are closest to.
+export const applyEdgeFilter = (
+  depth: Float32Array,
+  width: number,
+  height: number,
+  filter: EdgeFilter
+): { depth: Float32Array; dropped: Uint8Array | null } => {
+  if (filter.mode === 'off') return { depth, dropped: null };
+
+  const filtered = filter.mode === 'snap' ? new Float32Array(depth) : depth;
+  const dropped = filter.mode === 'drop' ? new Uint8Array(width * height) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const d = depth[idx];
+      let min = d;
+      let max = d;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const n = depth[ny * width + nx];
+          if (n < min) min = n;
+          if (n > max) max = n;
+        }
+      }
+
+      if (max - d <= filter.threshold && d - min <= filter.threshold) continue;
+
+      if (dropped) {
+        dropped[idx] = 1;
+      } else {
+        filtered[idx] = (max - d) < (d - min) ? max : min;
+      }
+    }
+  }
+
+  return { depth: filtered, dropped };
+};
+
+// Otsu's method on the depth histogram: the split that best separates the two depth
+// populations (subject vs. background). Returns a normalised 0..1 threshold.
+export const computeOtsuThreshold = (depth: Float32Array, bins: number = 256): number => {
+  const histogram = new Float64Array(bins);
+  for (let i = 0; i < depth.length; i++) {
+    const bin = Math.min(bins - 1, Math.max(0, Math.floor(depth[i] * bins)));
+    histogram[bin]++;
+  }
+
+  const total = depth.length;
+  let sumAll = 0;
+  for (let b = 0; b < bins; b++) sumAll += b * histogram[b];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let bestBin = 0;
+
+  for (let b = 0; b < bins; b++) {
+    weightBackground += histogram[b];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += b * histogram[b];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const betweenVariance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (betweenVariance > bestVariance) {
+      bestVariance = betweenVariance;
+      bestBin = b;
+    }
+  }
+
+  return (bestBin + 1) / bins;
+};
+
 // Main function to combine Color Image + Depth Map Image into 3D points
 export const generatePointCloudFromImages = (
   colorCanvas: HTMLCanvasElement, 
   depthCanvas: HTMLCanvasElement,
   samplingFactor: number = 1.0, // 0.0 to 1.0
-  isVoxelMode: boolean = false
+  isVoxelMode: boolean = false,
+  options: CloudBuildOptions = {}
 ): ProcessedPointCloud => {
   const width = colorCanvas.width;
   const height = colorCanvas.height;
@@ -62,12 +327,60 @@ export const generatePointCloudFromImages = (
   const colorData = colorCtx.getImageData(0, 0, width, height).data;
   const depthData = depthCtx.getImageData(0, 0, width, height).data;
 
+  // Canvas pixels are 8-bit: use the red channel as depth
+  const depth = new Float32Array(width * height);
+  for (let p = 0; p < depth.length; p++) {
+    depth[p] = depthData[p * 4] / 255;
+  }
+
+  return buildPointCloud(colorData, depth, width, height, samplingFactor, isVoxelMode, options);
+};
+
+// DOM-free core of generatePointCloudFromImages, shared with the cloud builder worker.
+// Takes raw RGBA color pixels and a normalised depth grid (0 = far, 1 = near) of the same size.
+export const buildPointCloud = (
+  colorData: Uint8ClampedArray,
+  depthGrid: Float32Array,
+  width: number,
+  height: number,
+  samplingFactor: number = 1.0,
+  isVoxelMode: boolean = false,
+  options: CloudBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): ProcessedPointCloud => {
   // Max possible points
   const totalPixels = width * height;
+
+  // Depth for the whole grid, so filters can look at neighbours
+  let rawDepth = depthGrid;
+  if (options.refinement) {
+    rawDepth = refineDepthMap(rawDepth, colorData, width, height, options.refinement);
+  }
+  if (options.response && !isIdentityResponse(options.response)) {
+    rawDepth = applyDepthResponse(rawDepth, options.response);
+  }
+  const { depth, dropped } = options.edgeFilter
+    ? applyEdgeFilter(rawDepth, width, height, options.edgeFilter)
+    : { depth: rawDepth, dropped: null };
+
+  // Depth window: keep far <= depth <= near (auto background raises the far plane)
+  const clip = options.clip;
+  const clipNear = clip ? clip.near : 1;
+  const clipFar = clip
+    ? Math.max(clip.far, clip.removeBackground ? computeOtsuThreshold(depth) : 0)
+    : 0;
+
+  // Density culling on the pixel grid (seeded, so rebuilds are reproducible).
+  // In voxel mode, we typically want full grid density unless specified otherwise
+  const sampleMask = samplingFactor < 1.0 && !isVoxelMode
+    ? createSamplingMask(width, height, samplingFactor, options.sampling ?? { strategy: 'random', seed: 1 }, colorData, depth)
+    : null;
   
   // Allocate max size, we will slice later
   const positions = new Float32Array(totalPixels * 3);
   const colors = new Float32Array(totalPixels * 3);
+  const normals = options.normals ? new Float32Array(totalPixels * 3) : null;
+  const pixelIndices = new Uint32Array(totalPixels);
 
   let pIndex = 0;
   let pointCount = 0;
@@ -79,34 +392,96 @@ export const generatePointCloudFromImages = (
   // Dynamic depth scale
   const depthScale = Math.max(width, height) * 0.5;
 
+  // Pinhole camera: principal point and focal length in pixels at this resolution.
+  // The mid-depth plane sits at distance = focal length, so one pixel maps to one unit there
+  // and the cloud keeps the same overall scale as the orthographic projection.
+  const camera = options.camera;
+  const isPerspective = camera?.projection === 'perspective';
+  const focalPx = isPerspective ? getFocalLengthPx(camera!, width) : 0;
+  const ppX = isPerspective ? camera!.principalPoint.x * width : cx;
+  const ppY = isPerspective ? camera!.principalPoint.y * height : cy;
+
+  // X, Y, Z calculation for a pixel, written into out[0..2]
+  const project = (x: number, y: number, depthVal: number, out: Float32Array) => {
+    // Map 0..1 depth to Z range. 
+    const pZ = (depthVal - 0.5) * depthScale;
+
+    if (isPerspective) {
+      // Unproject along the pixel ray: lateral offset grows with distance from the camera
+      const distance = Math.max(focalPx * 0.05, focalPx - pZ);
+      const rayScale = distance / focalPx;
+      out[0] = (x - ppX) * rayScale;
+      out[1] = -(y - ppY) * rayScale;
+    } else {
+      out[0] = x - cx;
+      out[1] = -(y - cy);
+    }
+    out[2] = pZ;
+  };
+
+  // Retro posterize runs per point; other palettes are fitted after the loop
+  const posterize = isVoxelMode && (options.palette?.mode ?? 'retro') === 'retro';
+
+  // Scratch vectors for projection and normal estimation
+  const point = new Float32Array(3);
+  const left = new Float32Array(3);
+  const right = new Float32Array(3);
+  const up = new Float32Array(3);
+  const down = new Float32Array(3);
+
+  // Report roughly every 5% of rows
+  const progressStep = Math.max(1, Math.floor(height / 20));
+
   for (let y = 0; y < height; y++) {
+    if (onProgress && y % progressStep === 0) onProgress(y / height);
+
     for (let x = 0; x < width; x++) {
       
-      // Sampling check: Skip pixel if random value > factor
+      const pixel = y * width + x;
+      const i = pixel * 4;
+
+      // Sampling check: Skip pixels outside the sampling mask
       // We skip calculation entirely for performance
-      // In voxel mode, we typically want full grid density unless specified otherwise
-      if (samplingFactor < 1.0 && !isVoxelMode) {
-        if (Math.random() > samplingFactor) continue;
-      }
+      if (sampleMask && !sampleMask[pixel]) continue;
 
-      const i = (y * width + x) * 4;
+      // Discontinuity check: skip flying pixels on object silhouettes
+      if (dropped && dropped[pixel]) continue;
 
-      // Depth (Grayscale value)
-      const depthVal = depthData[i] / 255; 
+      const depthVal = depth[pixel]; 
 
-      // Threshold check (optional): Skip purely black (background) pixels if desired
-      // if (depthVal < 0.05) continue; 
+      // Clipping check: skip points outside the near/far window (background removal)
+      if (depthVal < clipFar || depthVal > clipNear) continue;
 
       let r = colorData[i] / 255;
       let g = colorData[i + 1] / 255;
       let b = colorData[i + 2] / 255;
 
-      // X, Y, Z calculation
-      const pX = (x - cx);
-      const pY = -(y - cy);
-      
-      // Map 0..1 depth to Z range. 
-      let pZ = (depthVal - 0.5) * depthScale; 
+      project(x, y, depthVal, point);
+      const pX = point[0];
+      const pY = point[1];
+      let pZ = point[2];
+
+      if (normals) {
+         // Surface normal from central differences of the neighbouring (unsampled) grid points
+         const xl = Math.max(0, x - 1), xr = Math.min(width - 1, x + 1);
+         const yu = Math.max(0, y - 1), yd = Math.min(height - 1, y + 1);
+         project(xl, y, depth[y * width + xl], left);
+         project(xr, y, depth[y * width + xr], right);
+         project(x, yu, depth[yu * width + x], up);
+         project(x, yd, depth[yd * width + x], down);
+
+         const tx = right[0] - left[0], ty = right[1] - left[1], tz = right[2] - left[2];
+         const bx = up[0] - down[0], by = up[1] - down[1], bz = up[2] - down[2];
+         let nx = ty * bz - tz * by;
+         let ny = tz * bx - tx * bz;
+         let nz = tx * by - ty * bx;
+         const len = Math.hypot(nx, ny, nz) || 1;
+         // Orient towards the camera (+Z)
+         const sign = nz < 0 ? -1 : 1;
+         normals[pIndex] = (nx / len) * sign;
+         normals[pIndex + 1] = (ny / len) * sign;
+         normals[pIndex + 2] = (nz / len) * sign;
+      }
 
       if (isVoxelMode) {
          // --- VOXEL ART STYLIZATION ---
@@ -117,10 +492,12 @@ export const generatePointCloudFromImages = (
 
          // 2. Color Quantization (Posterization)
          // Reduce color palette to simulate retro 8-bit/16-bit look
-         const levels = 8.0; 
-         r = Math.floor(r * levels) / levels;
-         g = Math.floor(g * levels) / levels;
-         b = Math.floor(b * levels) / levels;
+         if (posterize) {
+           const levels = 8.0; 
+           r = Math.floor(r * levels) / levels;
+           g = Math.floor(g * levels) / levels;
+           b = Math.floor(b * levels) / levels;
+         }
 
          // 3. Vibrancy Boost
          // Increase saturation to make voxels pop
@@ -149,15 +526,28 @@ export const generatePointCloudFromImages = (
       colors[pIndex + 1] = g;
       colors[pIndex + 2] = b;
 
+      pixelIndices[pointCount] = pixel;
+
       pIndex += 3;
       pointCount++;
     }
   }
 
-  // Return sliced arrays containing only valid points to save GPU memory
+  // Palette quantisation needs every voxel colour (adaptive palettes) and scan order (dithering)
+  const quantized = isVoxelMode && options.palette && !posterize
+    ? quantizeColors(colors, pixelIndices, pointCount, width, height, options.palette)
+    : null;
+
+  if (onProgress) onProgress(1);
+
+  // Views over the valid points only: the GPU gets just these, and not copying keeps the peak
+  // memory of large builds down (the unused tail is at most the rejected points)
   return { 
-    positions: positions.slice(0, pIndex), 
-    colors: colors.slice(0, pIndex), 
+    positions: positions.subarray(0, pIndex), 
+    colors: colors.subarray(0, pIndex), 
+    pixelIndices: pixelIndices.subarray(0, pointCount),
+    ...(normals ? { normals: normals.subarray(0, pIndex) } : {}),
+    ...(quantized ? { palette: quantized.palette, paletteCounts: quantized.counts } : {}),
     count: pointCount,
     width,
     height
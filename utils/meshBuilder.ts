@@ -0,0 +1,63 @@
+import { ProcessedPointCloud } from "../types";
+
+export interface GridMesh {
+  positions: Float32Array;
+  uvs: Float32Array;
+  indices: Uint32Array;
+  vertexCount: number;
+  triangleCount: number;
+}
+
+// Turns a point cloud built on the pixel grid into a connected, UV-mapped surface.
+// Each grid cell becomes two triangles; cells touching a dropped pixel keep whichever
+// triangle still has all three corners, so holes stay holes instead of being bridged.
+export const buildGridMesh = (cloud: ProcessedPointCloud): GridMesh => {
+  const { width, height, count, positions, pixelIndices } = cloud;
+
+  // Lookup from pixel to vertex index (-1 when the pixel produced no point)
+  const vertexAt = new Int32Array(width * height).fill(-1);
+  const uvs = new Float32Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    const pixel = pixelIndices[i];
+    vertexAt[pixel] = i;
+
+    const x = pixel % width;
+    const y = Math.floor(pixel / width);
+    uvs[i * 2] = (x + 0.5) / width;
+    uvs[i * 2 + 1] = 1 - (y + 0.5) / height;
+  }
+
+  // Worst case: two triangles per cell
+  const indices = new Uint32Array(Math.max(0, (width - 1) * (height - 1)) * 6);
+  let iIndex = 0;
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const a = vertexAt[y * width + x];           // top-left
+      const b = vertexAt[y * width + x + 1];       // top-right
+      const c = vertexAt[(y + 1) * width + x];     // bottom-left
+      const d = vertexAt[(y + 1) * width + x + 1]; // bottom-right
+
+      // Counter-clockwise winding when seen from +Z (the camera side)
+      if (a >= 0 && c >= 0 && b >= 0) {
+        indices[iIndex++] = a; indices[iIndex++] = c; indices[iIndex++] = b;
+      }
+      if (b >= 0 && c >= 0 && d >= 0) {
+        indices[iIndex++] = b; indices[iIndex++] = c; indices[iIndex++] = d;
+      } else if (a >= 0 && c >= 0 && d >= 0 && b < 0) {
+        indices[iIndex++] = a; indices[iIndex++] = c; indices[iIndex++] = d;
+      } else if (a >= 0 && d >= 0 && b >= 0 && c < 0) {
+        indices[iIndex++] = a; indices[iIndex++] = d; indices[iIndex++] = b;
+      }
+    }
+  }
+
+  return {
+    positions,
+    uvs,
+    indices: indices.slice(0, iIndex),
+    vertexCount: count,
+    triangleCount: iIndex / 3
+  };
+};
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { GridMesh } from "./meshBuilder";
+
+export interface ObjExportResult {
+  obj: string;
+  mtl: string;
+}
+
+// Builds a textured THREE.Mesh from a grid mesh, with depth exaggeration baked into Z
+export const createTexturedMesh = (
+  mesh: GridMesh,
+  texture: THREE.Texture | null,
+  depthExaggeration: number = 1.0
+): THREE.Mesh => {
+  const positions = new Float32Array(mesh.positions.length);
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    positions[i] = mesh.positions[i];
+    positions[i + 1] = mesh.positions[i + 1];
+    positions[i + 2] = mesh.positions[i + 2] * depthExaggeration;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(mesh.uvs, 2));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+  geometry.computeVertexNormals();
+
+  const material = new THREE.MeshStandardMaterial({
+    map: texture,
+    roughness: 0.8,
+    metalness: 0.0,
+    side: THREE.DoubleSide
+  });
+
+  const result = new THREE.Mesh(geometry, material);
+  result.name = 'DepthMesh';
+  return result;
+};
+
+// Exports the mesh as a single binary glTF with the source image embedded as texture
+export const exportGridMeshToGLB = async (
+  mesh: GridMesh,
+  textureImage: HTMLImageElement | HTMLCanvasElement,
+  depthExaggeration: number = 1.0
+): Promise<Blob> => {
+  const texture = new THREE.Texture(textureImage);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.flipY = false;
+  texture.needsUpdate = true;
+
+  // glTF expects UV origin at the top-left, our grid UVs use bottom-left
+  const exportMesh = createTexturedMesh(mesh, texture, depthExaggeration);
+  const uv = exportMesh.geometry.getAttribute('uv') as THREE.BufferAttribute;
+  for (let i = 0; i < uv.count; i++) {
+    uv.setY(i, 1 - uv.getY(i));
+  }
+
+  const exporter = new GLTFExporter();
+  const result = await exporter.parseAsync(exportMesh, { binary: true });
+
+  exportMesh.geometry.dispose();
+  (exportMesh.material as THREE.Material).dispose();
+  texture.dispose();
+
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+};
+
+// Exports the mesh as Wavefront OBJ plus its MTL material referencing the texture file
+export const exportGridMeshToOBJ = (
+  mesh: GridMesh,
+  baseName: string,
+  textureFileName: string,
+  depthExaggeration: number = 1.0
+): ObjExportResult => {
+  const { positions, uvs, indices, vertexCount } = mesh;
+  const lines: string[] = [
+    '# Generated by Artefacto DepthCloud',
+    `mtllib ${baseName}.mtl`,
+    `o ${baseName}`
+  ];
+
+  for (let i = 0; i < vertexCount; i++) {
+    const p = i * 3;
+    lines.push(`v ${positions[p]} ${positions[p + 1]} ${positions[p + 2] * depthExaggeration}`);
+  }
+  for (let i = 0; i < vertexCount; i++) {
+    lines.push(`vt ${uvs[i * 2]} ${uvs[i * 2 + 1]}`);
+  }
+
+  lines.push('usemtl depth_surface');
+  lines.push('s 1');
+  for (let i = 0; i < indices.length; i += 3) {
+    // OBJ indices are 1-based; position and UV share the same index
+    const a = indices[i] + 1;
+    const b = indices[i + 1] + 1;
+    const c = indices[i + 2] + 1;
+    lines.push(`f ${a}/${a} ${b}/${b} ${c}/${c}`);
+  }
+
+  const mtl = [
+    '# Generated by Artefacto DepthCloud',
+    'newmtl depth_surface',
+    'Ka 1.000 1.000 1.000',
+    'Kd 1.000 1.000 1.000',
+    'Ks 0.000 0.000 0.000',
+    'd 1.0',
+    'illum 1',
+    `map_Kd ${textureFileName}`,
+    ''
+  ].join('\n');
+
+  return { obj: lines.join('\n') + '\n', mtl };
+};
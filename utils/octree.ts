@@ -0,0 +1,151 @@
+import { OctreeNode, ProcessedPointCloud } from "../types";
+
+export interface OctreeBuildOptions {
+  // Points kept per node (also the grid-sampling budget of inner nodes)
+  maxPointsPerNode?: number;
+  maxDepth?: number;
+}
+
+// Reorders a cloud into a level-of-detail octree (Potree-style): every node owns a
+// contiguous range of points that is a grid-sampled subset of its cube, and the points
+// not picked are pushed down to the children. Rendering a node plus all its ancestors
+// shows its cube at that level's density; rendering every node shows the full cloud.
+// Ranges are contiguous so the viewer can stream nodes as zero-copy subarrays.
+// The cloud's arrays are reordered in place (no second copy of a multi-million point cloud).
+export const buildPointOctree = (
+  cloud: ProcessedPointCloud,
+  options: OctreeBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): ProcessedPointCloud => {
+  const maxPoints = options.maxPointsPerNode ?? 16384;
+  const maxDepth = options.maxDepth ?? 12;
+  const { positions, count } = cloud;
+
+  // Cubic root bounds so children stay cubes
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    for (let a = 0; a < 3; a++) {
+      const v = positions[i * 3 + a];
+      if (v < min[a]) min[a] = v;
+      if (v > max[a]) max[a] = v;
+    }
+  }
+  if (count === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+  const rootSize = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-3) * 1.0001;
+
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  const scratch = new Uint32Array(count);
+  const nodes: OctreeNode[] = [];
+
+  // Sampling grid resolution: a 2.5D surface covers roughly gridRes^2 cells of the cube
+  const gridRes = Math.max(8, Math.round(Math.sqrt(maxPoints)));
+  const cells = new Map<number, boolean>();
+  let processed = 0;
+
+  const build = (start: number, end: number, nodeMin: number[], size: number, level: number): number => {
+    const index = nodes.length;
+    const node: OctreeNode = { min: [nodeMin[0], nodeMin[1], nodeMin[2]], size, level, start, count: 0, children: [] };
+    nodes.push(node);
+
+    const total = end - start;
+    if (total <= maxPoints || level >= maxDepth) {
+      node.count = total;
+      processed += total;
+      if (onProgress) onProgress(processed / Math.max(1, count));
+      return index;
+    }
+
+    // 1. Grid sampling: the first point in each cell stays in this node (moved to the front)
+    cells.clear();
+    const cellSize = size / gridRes;
+    let kept = 0;
+    let rest = 0;
+    for (let k = start; k < end; k++) {
+      const p = order[k];
+      const cx = Math.min(gridRes - 1, Math.floor((positions[p * 3] - nodeMin[0]) / cellSize));
+      const cy = Math.min(gridRes - 1, Math.floor((positions[p * 3 + 1] - nodeMin[1]) / cellSize));
+      const cz = Math.min(gridRes - 1, Math.floor((positions[p * 3 + 2] - nodeMin[2]) / cellSize));
+      const cell = (cz * gridRes + cy) * gridRes + cx;
+      if (!cells.has(cell)) {
+        cells.set(cell, true);
+        order[start + kept++] = p;
+      } else {
+        scratch[rest++] = p;
+      }
+    }
+    node.count = kept;
+    processed += kept;
+
+    // 2. Counting sort of the remaining points into the 8 octants
+    const half = size / 2;
+    const octantOf = (p: number) =>
+      (positions[p * 3] >= nodeMin[0] + half ? 1 : 0) |
+      (positions[p * 3 + 1] >= nodeMin[1] + half ? 2 : 0) |
+      (positions[p * 3 + 2] >= nodeMin[2] + half ? 4 : 0);
+
+    const octantCounts = [0, 0, 0, 0, 0, 0, 0, 0];
+    for (let k = 0; k < rest; k++) octantCounts[octantOf(scratch[k])]++;
+    const octantStart: number[] = [];
+    let offset = start + kept;
+    for (let o = 0; o < 8; o++) {
+      octantStart.push(offset);
+      offset += octantCounts[o];
+    }
+    const cursor = octantStart.slice();
+    for (let k = 0; k < rest; k++) {
+      const p = scratch[k];
+      order[cursor[octantOf(p)]++] = p;
+    }
+
+    // 3. Recurse
+    for (let o = 0; o < 8; o++) {
+      if (octantCounts[o] === 0) {
+        node.children.push(-1);
+        continue;
+      }
+      const childMin = [
+        nodeMin[0] + (o & 1 ? half : 0),
+        nodeMin[1] + (o & 2 ? half : 0),
+        nodeMin[2] + (o & 4 ? half : 0)
+      ];
+      node.children.push(build(octantStart[o], octantStart[o] + octantCounts[o], childMin, half, level + 1));
+    }
+    return index;
+  };
+
+  build(0, count, min, rootSize, 0);
+
+  // Apply the permutation (point k takes the values of point order[k]) to every per-point
+  // array in place, following each cycle once. Float64 holds both Float32 and Uint32 values exactly.
+  const visited = new Uint8Array(count);
+  const item = new Float64Array(3);
+  const permute = (array: Float32Array | Uint32Array, stride: number) => {
+    visited.fill(0);
+    for (let k = 0; k < count; k++) {
+      if (visited[k] || order[k] === k) continue;
+      for (let c = 0; c < stride; c++) item[c] = array[k * stride + c];
+      let j = k;
+      for (;;) {
+        visited[j] = 1;
+        const next = order[j];
+        if (next === k) {
+          for (let c = 0; c < stride; c++) array[j * stride + c] = item[c];
+          break;
+        }
+        for (let c = 0; c < stride; c++) array[j * stride + c] = array[next * stride + c];
+        j = next;
+      }
+    }
+  };
+  permute(cloud.positions, 3);
+  permute(cloud.colors, 3);
+  if (cloud.normals) permute(cloud.normals, 3);
+  permute(cloud.pixelIndices, 1);
+
+  return { ...cloud, octree: nodes };
+};
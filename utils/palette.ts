@@ -0,0 +1,264 @@
+import { PaletteOptions } from "../types";
+import { createRandom } from "./sampling";
+
+// RGB triple in 0..1
+export type Rgb = [number, number, number];
+
+export interface QuantizeResult {
+  // Packed 0xRRGGBB entries, in palette order
+  palette: number[];
+  // Number of points mapped to each palette entry
+  counts: number[];
+}
+
+// Common brick-toy colours (approximate sRGB), for planning physical builds
+export const BRICK_PALETTE: number[] = [
+  0xF4F4F4, // White
+  0xA0A5A9, // Light bluish gray
+  0x6C6E68, // Dark bluish gray
+  0x1B2A34, // Black
+  0xC91A09, // Red
+  0x720E0F, // Dark red
+  0xFE8A18, // Orange
+  0xF2CD37, // Yellow
+  0xE4CD9E, // Tan
+  0x958A73, // Dark tan
+  0x582A12, // Reddish brown
+  0xBBE90B, // Lime
+  0x237841, // Green
+  0x184632, // Dark green
+  0xA0BCAC, // Sand green
+  0x0055BF, // Blue
+  0x0A3463, // Dark blue
+  0x5A93DB, // Medium blue
+  0x078BC9, // Dark azure
+  0xE4ADC8, // Bright pink
+  0x923978, // Magenta
+  0xAC78BA, // Medium lavender
+  0xD09168, // Nougat
+  0xAA7D55, // Medium nougat
+  0xF6D7B3  // Light nougat
+];
+
+export const packRgb = (c: Rgb) =>
+  (Math.round(c[0] * 255) << 16) | (Math.round(c[1] * 255) << 8) | Math.round(c[2] * 255);
+
+export const unpackRgb = (packed: number): Rgb =>
+  [((packed >> 16) & 0xFF) / 255, ((packed >> 8) & 0xFF) / 255, (packed & 0xFF) / 255];
+
+export const rgbToHex = (packed: number) => `#${packed.toString(16).padStart(6, '0')}`;
+
+// Perceptually weighted squared distance (green matters most, blue least)
+const distanceSq = (a: Rgb, b: Rgb) => {
+  const dr = a[0] - b[0], dg = a[1] - b[1], db = a[2] - b[2];
+  return 2 * dr * dr + 4 * dg * dg + 3 * db * db;
+};
+
+export const nearestPaletteIndex = (color: Rgb, palette: Rgb[]) => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const d = distanceSq(color, palette[i]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+};
+
+// Median cut: repeatedly split the box with the widest channel range at its median
+export const medianCutPalette = (colors: Rgb[], size: number): Rgb[] => {
+  if (colors.length === 0) return [];
+  const boxes: Rgb[][] = [colors.slice()];
+
+  const widestChannel = (box: Rgb[]) => {
+    let bestChannel = 0;
+    let bestRange = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = Infinity, max = -Infinity;
+      for (const color of box) {
+        if (color[c] < min) min = color[c];
+        if (color[c] > max) max = color[c];
+      }
+      if (max - min > bestRange) {
+        bestRange = max - min;
+        bestChannel = c;
+      }
+    }
+    return { channel: bestChannel, range: bestRange };
+  };
+
+  while (boxes.length < size) {
+    // Split the box with the largest spread (ties broken by population)
+    let target = -1;
+    let targetScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const score = widestChannel(box).range * Math.sqrt(box.length);
+      if (score > targetScore) {
+        targetScore = score;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const { channel } = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const mid = box.length >> 1;
+    boxes.splice(target, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  return boxes.map(box => {
+    const sum: Rgb = [0, 0, 0];
+    for (const color of box) {
+      sum[0] += color[0]; sum[1] += color[1]; sum[2] += color[2];
+    }
+    return [sum[0] / box.length, sum[1] / box.length, sum[2] / box.length] as Rgb;
+  });
+};
+
+// K-means with k-means++ seeding (seeded, so rebuilds give the same palette)
+export const kMeansPalette = (colors: Rgb[], size: number, iterations: number = 12): Rgb[] => {
+  if (colors.length === 0) return [];
+  const random = createRandom(1);
+  const k = Math.min(size, colors.length);
+
+  const centers: Rgb[] = [colors[Math.floor(random() * colors.length)]];
+  const nearestDist = new Float64Array(colors.length).fill(Infinity);
+  while (centers.length < k) {
+    const last = centers[centers.length - 1];
+    let total = 0;
+    for (let i = 0; i < colors.length; i++) {
+      nearestDist[i] = Math.min(nearestDist[i], distanceSq(colors[i], last));
+      total += nearestDist[i];
+    }
+    if (total === 0) break;
+    let pick = random() * total;
+    let chosen = colors.length - 1;
+    for (let i = 0; i < colors.length; i++) {
+      pick -= nearestDist[i];
+      if (pick <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centers.push(colors[chosen]);
+  }
+
+  const assignment = new Int32Array(colors.length);
+  for (let iter = 0; iter < iterations; iter++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    let changed = false;
+    for (let i = 0; i < colors.length; i++) {
+      const c = nearestPaletteIndex(colors[i], centers);
+      if (c !== assignment[i]) changed = true;
+      assignment[i] = c;
+      const s = sums[c];
+      s[0] += colors[i][0]; s[1] += colors[i][1]; s[2] += colors[i][2]; s[3]++;
+    }
+    sums.forEach((s, c) => {
+      if (s[3] > 0) centers[c] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+    });
+    if (!changed && iter > 0) break;
+  }
+  return centers;
+};
+
+// Reduces a swatch image to its distinct colours (median cut if there are too many)
+export const extractSwatchPalette = (pixels: Uint8ClampedArray, maxColors: number = 64): number[] => {
+  const unique = new Set<number>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue; // Transparent background
+    unique.add((pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]);
+  }
+  if (unique.size <= maxColors) return Array.from(unique);
+
+  const colors: Rgb[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    colors.push([pixels[i] / 255, pixels[i + 1] / 255, pixels[i + 2] / 255]);
+  }
+  return medianCutPalette(colors, maxColors).map(packRgb);
+};
+
+// Training sample for the adaptive palettes: k-means over every voxel would be needlessly slow
+const sampleColors = (colors: Float32Array, count: number, maxSamples: number): Rgb[] => {
+  const step = Math.max(1, Math.floor(count / maxSamples));
+  const samples: Rgb[] = [];
+  for (let i = 0; i < count; i += step) {
+    samples.push([colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]]);
+  }
+  return samples;
+};
+
+const buildPalette = (colors: Float32Array, count: number, options: PaletteOptions): Rgb[] => {
+  switch (options.mode) {
+    case 'kmeans':
+      return kMeansPalette(sampleColors(colors, count, 20000), options.size);
+    case 'median-cut':
+      return medianCutPalette(sampleColors(colors, count, 50000), options.size);
+    case 'bricks':
+      return BRICK_PALETTE.map(unpackRgb);
+    case 'custom':
+      return (options.customColors && options.customColors.length > 0 ? options.customColors : BRICK_PALETTE).map(unpackRgb);
+    default:
+      return [];
+  }
+};
+
+// Snaps point colours (in place) to a palette. With dithering, the quantisation error is
+// diffused Floyd-Steinberg style over the pixel grid the points came from.
+export const quantizeColors = (
+  colors: Float32Array,
+  pixelIndices: Uint32Array,
+  count: number,
+  width: number,
+  height: number,
+  options: PaletteOptions
+): QuantizeResult => {
+  const palette = buildPalette(colors, count, options);
+  const counts = new Array<number>(palette.length).fill(0);
+  if (palette.length === 0) return { palette: [], counts };
+
+  // Error buffer over the full grid; points arrive in row-major order
+  const error = options.dither ? new Float32Array(width * height * 3) : null;
+  const spread = (pixel: number, x: number, y: number, dx: number, dy: number, weight: number, err: Rgb) => {
+    const nx = x + dx, ny = y + dy;
+    if (!error || nx < 0 || nx >= width || ny >= height) return;
+    const target = (pixel + dy * width + dx) * 3;
+    error[target] += err[0] * weight;
+    error[target + 1] += err[1] * weight;
+    error[target + 2] += err[2] * weight;
+  };
+
+  for (let i = 0; i < count; i++) {
+    const pixel = pixelIndices[i];
+    const color: Rgb = [colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]];
+    if (error) {
+      color[0] += error[pixel * 3];
+      color[1] += error[pixel * 3 + 1];
+      color[2] += error[pixel * 3 + 2];
+    }
+
+    const index = nearestPaletteIndex(color, palette);
+    const chosen = palette[index];
+    counts[index]++;
+    colors[i * 3] = chosen[0];
+    colors[i * 3 + 1] = chosen[1];
+    colors[i * 3 + 2] = chosen[2];
+
+    if (error) {
+      const err: Rgb = [color[0] - chosen[0], color[1] - chosen[1], color[2] - chosen[2]];
+      const x = pixel % width;
+      const y = (pixel - x) / width;
+      spread(pixel, x, y, 1, 0, 7 / 16, err);
+      spread(pixel, x, y, -1, 1, 3 / 16, err);
+      spread(pixel, x, y, 0, 1, 5 / 16, err);
+      spread(pixel, x, y, 1, 1, 1 / 16, err);
+    }
+  }
+
+  return { palette: palette.map(packRgb), counts };
+};
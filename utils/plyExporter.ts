@@ -0,0 +1,65 @@
+import { ProcessedPointCloud } from "../types";
+
+export type PlyFormat = 'ascii' | 'binary_little_endian';
+
+export interface PlyExportOptions {
+  format?: PlyFormat;
+  // Z scale applied on export so the file matches what the viewer shows
+  depthExaggeration?: number;
+}
+
+// Bytes per vertex in binary mode: 3 x float32 position + 3 x uchar color
+const BINARY_VERTEX_STRIDE = 15;
+
+const toByte = (v: number) => Math.max(0, Math.min(255, Math.round(v * 255)));
+
+const buildHeader = (format: PlyFormat, count: number): string => [
+  'ply',
+  `format ${format} 1.0`,
+  'comment Generated by Artefacto DepthCloud',
+  `element vertex ${count}`,
+  'property float x',
+  'property float y',
+  'property float z',
+  'property uchar red',
+  'property uchar green',
+  'property uchar blue',
+  'end_header',
+  ''
+].join('\n');
+
+// Serializes a point cloud to PLY, readable by MeshLab, CloudCompare and Blender
+export const exportPointCloudToPLY = (
+  cloud: ProcessedPointCloud,
+  options: PlyExportOptions = {}
+): Blob => {
+  const format = options.format ?? 'binary_little_endian';
+  const zScale = options.depthExaggeration ?? 1.0;
+  const { positions, colors, count } = cloud;
+  const header = buildHeader(format, count);
+
+  if (format === 'ascii') {
+    const lines: string[] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      const p = i * 3;
+      lines[i] = `${positions[p]} ${positions[p + 1]} ${positions[p + 2] * zScale} ` +
+        `${toByte(colors[p])} ${toByte(colors[p + 1])} ${toByte(colors[p + 2])}`;
+    }
+    return new Blob([header, lines.join('\n'), '\n'], { type: 'text/plain' });
+  }
+
+  const body = new ArrayBuffer(count * BINARY_VERTEX_STRIDE);
+  const view = new DataView(body);
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    const p = i * 3;
+    view.setFloat32(offset, positions[p], true);
+    view.setFloat32(offset + 4, positions[p + 1], true);
+    view.setFloat32(offset + 8, positions[p + 2] * zScale, true);
+    view.setUint8(offset + 12, toByte(colors[p]));
+    view.setUint8(offset + 13, toByte(colors[p + 1]));
+    view.setUint8(offset + 14, toByte(colors[p + 2]));
+    offset += BINARY_VERTEX_STRIDE;
+  }
+  return new Blob([header, body], { type: 'application/octet-stream' });
+};
@@ -0,0 +1,346 @@
+import { ProcessedPointCloud, SimilarityTransform, Vec3 } from "../types";
+import { createRandom } from "./sampling";
+
+export interface IcpResult {
+  transform: SimilarityTransform;
+  // Root mean square distance of the matched pairs after the last iteration
+  rms: number;
+  iterations: number;
+  pairs: number;
+}
+
+export const IDENTITY_TRANSFORM: SimilarityTransform = {
+  rotation: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  scale: 1,
+  translation: [0, 0, 0]
+};
+
+export const transformPoint = (t: SimilarityTransform, p: ArrayLike<number>, out: Vec3 = [0, 0, 0]): Vec3 => {
+  const r = t.rotation;
+  const x = p[0], y = p[1], z = p[2];
+  out[0] = t.scale * (r[0] * x + r[1] * y + r[2] * z) + t.translation[0];
+  out[1] = t.scale * (r[3] * x + r[4] * y + r[5] * z) + t.translation[1];
+  out[2] = t.scale * (r[6] * x + r[7] * y + r[8] * z) + t.translation[2];
+  return out;
+};
+
+// The same alignment for a reference cloud built k times larger
+export const scaleTransform = (t: SimilarityTransform, k: number): SimilarityTransform => ({
+  rotation: t.rotation,
+  scale: t.scale * k,
+  translation: [t.translation[0] * k, t.translation[1] * k, t.translation[2] * k]
+});
+
+// (outer ∘ inner)(p) = outer(inner(p))
+export const composeTransforms = (outer: SimilarityTransform, inner: SimilarityTransform): SimilarityTransform => {
+  const a = outer.rotation, b = inner.rotation;
+  const rotation = new Array<number>(9);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      rotation[i * 3 + j] = a[i * 3] * b[j] + a[i * 3 + 1] * b[3 + j] + a[i * 3 + 2] * b[6 + j];
+    }
+  }
+  const moved = transformPoint({ ...outer, translation: [0, 0, 0] }, inner.translation);
+  return {
+    rotation,
+    scale: outer.scale * inner.scale,
+    translation: [moved[0] + outer.translation[0], moved[1] + outer.translation[1], moved[2] + outer.translation[2]]
+  };
+};
+
+// Eigen decomposition of a symmetric 4x4 matrix (cyclic Jacobi); returns the eigenvector
+// of the largest eigenvalue
+const largestEigenvector4 = (m: number[][]): number[] => {
+  const a = m.map(row => row.slice());
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 3; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-20) break;
+
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < 4; i++) if (a[i][i] > a[best][best]) best = i;
+  return [v[0][best], v[1][best], v[2][best], v[3][best]];
+};
+
+// Closed-form absolute orientation (Horn's quaternion method) mapping source onto target.
+// With estimateScale, uses Horn's symmetric scale, so clouds of different depth scale line up.
+export const estimateSimilarity = (source: Vec3[], target: Vec3[], estimateScale: boolean = true): SimilarityTransform => {
+  const n = Math.min(source.length, target.length);
+  if (n === 0) return IDENTITY_TRANSFORM;
+
+  const cs: Vec3 = [0, 0, 0], ct: Vec3 = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < 3; k++) {
+      cs[k] += source[i][k] / n;
+      ct[k] += target[i][k] / n;
+    }
+  }
+
+  // Cross-covariance S[a][b] = sum(source_a * target_b) of the centered sets
+  const S = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let sourceNorm = 0, targetNorm = 0;
+  for (let i = 0; i < n; i++) {
+    const a = [source[i][0] - cs[0], source[i][1] - cs[1], source[i][2] - cs[2]];
+    const b = [target[i][0] - ct[0], target[i][1] - ct[1], target[i][2] - ct[2]];
+    for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) S[r][c] += a[r] * b[c];
+    sourceNorm += a[0] * a[0] + a[1] * a[1] + a[2] * a[2];
+    targetNorm += b[0] * b[0] + b[1] * b[1] + b[2] * b[2];
+  }
+
+  const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = S;
+  const N = [
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz]
+  ];
+  const [w, x, y, z] = largestEigenvector4(N);
+
+  const rotation = [
+    w * w + x * x - y * y - z * z, 2 * (x * y - w * z), 2 * (x * z + w * y),
+    2 * (x * y + w * z), w * w - x * x + y * y - z * z, 2 * (y * z - w * x),
+    2 * (x * z - w * y), 2 * (y * z + w * x), w * w - x * x - y * y + z * z
+  ];
+  const scale = estimateScale && sourceNorm > 0 ? Math.sqrt(targetNorm / sourceNorm) : 1;
+  const rotated = transformPoint({ rotation, scale, translation: [0, 0, 0] }, cs);
+  return { rotation, scale, translation: [ct[0] - rotated[0], ct[1] - rotated[1], ct[2] - rotated[2]] };
+};
+
+// Uniform hash grid over a point set for fixed-radius nearest neighbour queries
+const createPointHash = (positions: Float32Array, count: number, cellSize: number) => {
+  const cells = new Map<string, number[]>();
+  const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  for (let i = 0; i < count; i++) {
+    const k = key(
+      Math.floor(positions[i * 3] / cellSize),
+      Math.floor(positions[i * 3 + 1] / cellSize),
+      Math.floor(positions[i * 3 + 2] / cellSize)
+    );
+    let bucket = cells.get(k);
+    if (!bucket) cells.set(k, bucket = []);
+    bucket.push(i);
+  }
+
+  // Nearest point within cellSize of p, or -1
+  const nearest = (p: Vec3): number => {
+    const cx = Math.floor(p[0] / cellSize), cy = Math.floor(p[1] / cellSize), cz = Math.floor(p[2] / cellSize);
+    let best = -1;
+    let bestDist = cellSize * cellSize;
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const bucket = cells.get(key(cx + dx, cy + dy, cz + dz));
+          if (!bucket) continue;
+          for (const i of bucket) {
+            const ex = positions[i * 3] - p[0], ey = positions[i * 3 + 1] - p[1], ez = positions[i * 3 + 2] - p[2];
+            const d = ex * ex + ey * ey + ez * ez;
+            if (d < bestDist) {
+              bestDist = d;
+              best = i;
+            }
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  return { nearest };
+};
+
+export interface IcpOptions {
+  iterations?: number;
+  // Pairs further apart than this are ignored (cloud units)
+  maxDistance?: number;
+  // Source points used per iteration
+  sampleCount?: number;
+  // Fraction of the worst pairs discarded each iteration (trimmed ICP)
+  trim?: number;
+}
+
+// Point-to-point ICP refining an initial alignment of source onto target.
+// Scale comes from the initial (3-point) estimate; ICP only refines rotation and translation.
+export const refineAlignmentICP = (
+  source: ProcessedPointCloud,
+  target: ProcessedPointCloud,
+  initial: SimilarityTransform,
+  options: IcpOptions = {}
+): IcpResult => {
+  const iterations = options.iterations ?? 60;
+  const maxDistance = options.maxDistance ?? 8;
+  const sampleCount = Math.min(options.sampleCount ?? 4000, source.count);
+  const trim = options.trim ?? 0.2;
+
+  const hash = createPointHash(target.positions, target.count, maxDistance);
+  const random = createRandom(7);
+  const samples: number[] = [];
+  for (let i = 0; i < sampleCount; i++) samples.push(Math.floor(random() * source.count));
+
+  let transform = initial;
+  let rms = Infinity;
+  let pairs = 0;
+  let iter = 0;
+  const moved: Vec3 = [0, 0, 0];
+
+  for (; iter < iterations; iter++) {
+    const matches: { s: Vec3; t: Vec3; d: number }[] = [];
+    for (const i of samples) {
+      transformPoint(transform, source.positions.subarray(i * 3, i * 3 + 3), moved);
+      const j = hash.nearest(moved);
+      if (j < 0) continue;
+      const t: Vec3 = [target.positions[j * 3], target.positions[j * 3 + 1], target.positions[j * 3 + 2]];
+      const d = (t[0] - moved[0]) ** 2 + (t[1] - moved[1]) ** 2 + (t[2] - moved[2]) ** 2;
+      matches.push({ s: [moved[0], moved[1], moved[2]], t, d });
+    }
+    if (matches.length < 3) break;
+
+    matches.sort((a, b) => a.d - b.d);
+    const kept = matches.slice(0, Math.max(3, Math.floor(matches.length * (1 - trim))));
+    pairs = kept.length;
+    const newRms = Math.sqrt(kept.reduce((sum, m) => sum + m.d, 0) / kept.length);
+
+    const delta = estimateSimilarity(kept.map(m => m.s), kept.map(m => m.t), false);
+    transform = composeTransforms(delta, transform);
+
+    const converged = Math.abs(rms - newRms) < 1e-4 * Math.max(1, newRms);
+    rms = newRms;
+    if (converged) break;
+  }
+
+  return { transform, rms, iterations: iter, pairs };
+};
+
+// Open-addressing set of occupied dedupe cells: integer cell coordinates hashed into a typed
+// table, so million-point merges need no per-point strings or objects
+const createCellSet = (capacity: number) => {
+  let size = 16;
+  while (size < capacity * 2) size *= 2;
+  const mask = size - 1;
+  // x, y, z per slot; empty slots hold the sentinel in x
+  const EMPTY = -0x80000000;
+  const keys = new Int32Array(size * 3).fill(EMPTY);
+
+  // Adds the cell and returns true, or false if it was already there
+  const add = (x: number, y: number, z: number): boolean => {
+    let slot = (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) & mask;
+    for (;;) {
+      const k = slot * 3;
+      if (keys[k] === EMPTY) {
+        keys[k] = x;
+        keys[k + 1] = y;
+        keys[k + 2] = z;
+        return true;
+      }
+      if (keys[k] === x && keys[k + 1] === y && keys[k + 2] === z) return false;
+      slot = (slot + 1) & mask;
+    }
+  };
+  return { add };
+};
+
+// Transforms every cloud into the reference frame and concatenates them, keeping only the
+// first point in each dedupe cell (earlier clouds win, so the reference view keeps priority).
+export const mergeClouds = (
+  clouds: ProcessedPointCloud[],
+  transforms: SimilarityTransform[],
+  dedupeSize: number = 1,
+  onProgress?: (fraction: number) => void
+): ProcessedPointCloud => {
+  const total = clouds.reduce((sum, c) => sum + c.count, 0);
+  const withNormals = clouds.every(c => !!c.normals);
+  const positions = new Float32Array(total * 3);
+  const colors = new Float32Array(total * 3);
+  const normals = withNormals ? new Float32Array(total * 3) : null;
+  const pixelIndices = new Uint32Array(total);
+  const occupied = createCellSet(total);
+  const p: Vec3 = [0, 0, 0];
+  let count = 0;
+  let processed = 0;
+  const progressStep = Math.max(1, Math.floor(total / 20));
+
+  clouds.forEach((cloud, c) => {
+    const t = transforms[c] ?? IDENTITY_TRANSFORM;
+    const rotationOnly = { rotation: t.rotation, scale: 1, translation: [0, 0, 0] as Vec3 };
+    const n: Vec3 = [0, 0, 0];
+
+    for (let i = 0; i < cloud.count; i++) {
+      if (onProgress && ++processed % progressStep === 0) onProgress(processed / total);
+      transformPoint(t, cloud.positions.subarray(i * 3, i * 3 + 3), p);
+      if (!occupied.add(Math.floor(p[0] / dedupeSize), Math.floor(p[1] / dedupeSize), Math.floor(p[2] / dedupeSize))) continue;
+
+      positions.set(p, count * 3);
+      colors.set(cloud.colors.subarray(i * 3, i * 3 + 3), count * 3);
+      if (normals) normals.set(transformPoint(rotationOnly, cloud.normals!.subarray(i * 3, i * 3 + 3), n), count * 3);
+      // Fused clouds have no shared pixel grid; keep each point's source pixel for reference
+      pixelIndices[count] = cloud.pixelIndices[i];
+      count++;
+    }
+  });
+
+  // Views, like buildPointCloud: no second copy of the merged arrays
+  return {
+    positions: positions.subarray(0, count * 3),
+    colors: colors.subarray(0, count * 3),
+    pixelIndices: pixelIndices.subarray(0, count),
+    ...(normals ? { normals: normals.subarray(0, count * 3) } : {}),
+    count,
+    width: clouds[0]?.width ?? 0,
+    height: clouds[0]?.height ?? 0
+  };
+};
+
+// 3D point of the cloud at (or nearest to) an image pixel, searching a small window
+// because density sampling and filters leave holes in the grid
+export const findPointAtPixel = (cloud: ProcessedPointCloud, px: number, py: number, radius: number = 6): Vec3 | null => {
+  const lookup = new Map<number, number>();
+  const x0 = Math.round(px), y0 = Math.round(py);
+  for (let i = 0; i < cloud.count; i++) {
+    const pixel = cloud.pixelIndices[i];
+    const x = pixel % cloud.width;
+    const y = (pixel - x) / cloud.width;
+    // First point wins: in a fused cloud that is the reference view's point
+    if (Math.abs(x - x0) <= radius && Math.abs(y - y0) <= radius && !lookup.has(pixel)) lookup.set(pixel, i);
+  }
+
+  let best = -1;
+  let bestDist = Infinity;
+  lookup.forEach((i, pixel) => {
+    const x = pixel % cloud.width;
+    const y = (pixel - x) / cloud.width;
+    const d = (x - px) ** 2 + (y - py) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  });
+  return best < 0 ? null : [cloud.positions[best * 3], cloud.positions[best * 3 + 1], cloud.positions[best * 3 + 2]];
+};
@@ -0,0 +1,206 @@
+import { SamplingOptions } from "../types";
+
+// Small, fast seeded PRNG (mulberry32) so the same seed always yields the same cloud
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF);
+
+// Seeded Bernoulli: every pixel kept with the same probability (legacy behaviour, but reproducible)
+const sampleRandom = (mask: Uint8Array, density: number, random: () => number) => {
+  for (let i = 0; i < mask.length; i++) {
+    if (random() < density) mask[i] = 1;
+  }
+};
+
+// Stratified blocks for dense sampling: each 4x4 block keeps exactly its share of pixels
+// (fractional remainders carried to the next block), chosen at random inside the block
+const sampleStratifiedBlocks = (mask: Uint8Array, width: number, height: number, density: number, random: () => number) => {
+  const block = 4;
+  const cells: number[] = [];
+  let carry = 0;
+
+  for (let by = 0; by < height; by += block) {
+    for (let bx = 0; bx < width; bx += block) {
+      cells.length = 0;
+      for (let y = by; y < Math.min(height, by + block); y++) {
+        for (let x = bx; x < Math.min(width, bx + block); x++) cells.push(y * width + x);
+      }
+
+      const wanted = cells.length * density + carry;
+      const take = Math.min(cells.length, Math.floor(wanted));
+      carry = wanted - take;
+
+      // Partial Fisher-Yates: the first `take` entries become the selection
+      for (let i = 0; i < take; i++) {
+        const j = i + Math.floor(random() * (cells.length - i));
+        const tmp = cells[i]; cells[i] = cells[j]; cells[j] = tmp;
+        mask[cells[i]] = 1;
+      }
+    }
+  }
+};
+
+// Jittered grid: one sample per cell of area 1/density, placed randomly inside the cell
+const sampleStratified = (mask: Uint8Array, width: number, height: number, density: number, random: () => number) => {
+  // Cells narrower than two pixels would collide on the pixel grid
+  if (density > 0.25) {
+    sampleStratifiedBlocks(mask, width, height, density, random);
+    return;
+  }
+
+  const cell = 1 / Math.sqrt(density);
+  const cols = Math.ceil(width / cell);
+  const rows = Math.ceil(height / cell);
+
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      const x = Math.min(width - 1, Math.floor((cx + random()) * cell));
+      const y = Math.min(height - 1, Math.floor((cy + random()) * cell));
+      mask[y * width + x] = 1;
+    }
+  }
+};
+
+// Poisson-disk (blue noise) by dart throwing: visit pixels in seeded random order and
+// accept one only if no accepted sample lies within the minimum distance.
+// Random sequential packing saturates at ~0.547 coverage (a bit less on a pixel grid),
+// which sets the radius for a given density.
+const samplePoissonDisk = (mask: Uint8Array, width: number, height: number, density: number, random: () => number) => {
+  if (density > 0.2) {
+    // At ~2-pixel spacing the disk constraint cannot be honoured on the pixel grid
+    sampleStratified(mask, width, height, density, random);
+    return;
+  }
+  const radius = Math.sqrt(0.61 / density);
+
+  const total = width * height;
+  const order = new Uint32Array(total);
+  for (let i = 0; i < total; i++) order[i] = i;
+  for (let i = total - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = order[i]; order[i] = order[j]; order[j] = tmp;
+  }
+
+  // Background grid with at most one sample per cell (cell diagonal = radius)
+  const cellSize = radius / Math.SQRT2;
+  const gridW = Math.ceil(width / cellSize);
+  const gridH = Math.ceil(height / cellSize);
+  const grid = new Int32Array(gridW * gridH).fill(-1);
+  const radiusSq = radius * radius;
+
+  for (let k = 0; k < total; k++) {
+    const pixel = order[k];
+    const x = pixel % width;
+    const y = (pixel - x) / width;
+    const gx = Math.floor(x / cellSize);
+    const gy = Math.floor(y / cellSize);
+
+    let accepted = true;
+    for (let ny = Math.max(0, gy - 2); ny <= Math.min(gridH - 1, gy + 2) && accepted; ny++) {
+      for (let nx = Math.max(0, gx - 2); nx <= Math.min(gridW - 1, gx + 2); nx++) {
+        const other = grid[ny * gridW + nx];
+        if (other < 0) continue;
+        const ox = other % width;
+        const oy = (other - ox) / width;
+        if ((ox - x) * (ox - x) + (oy - y) * (oy - y) < radiusSq) {
+          accepted = false;
+          break;
+        }
+      }
+    }
+
+    if (accepted) {
+      grid[gy * gridW + gx] = pixel;
+      mask[pixel] = 1;
+    }
+  }
+};
+
+// Detail-weighted: keep probability proportional to local color + depth variation,
+// with a baseline so flat regions are thinned rather than emptied.
+const sampleDetailWeighted = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  density: number,
+  random: () => number,
+  colorData: Uint8ClampedArray,
+  depth: Float32Array
+) => {
+  const total = width * height;
+  const weights = new Float32Array(total);
+  let sum = 0;
+
+  const lum = (p: number) => (0.299 * colorData[p * 4] + 0.587 * colorData[p * 4 + 1] + 0.114 * colorData[p * 4 + 2]) / 255;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const right = x < width - 1 ? idx + 1 : idx;
+      const down = y < height - 1 ? idx + width : idx;
+
+      const colorGrad = Math.abs(lum(right) - lum(idx)) + Math.abs(lum(down) - lum(idx));
+      const depthGrad = Math.abs(depth[right] - depth[idx]) + Math.abs(depth[down] - depth[idx]);
+
+      weights[idx] = colorGrad + depthGrad * 4;
+      sum += weights[idx];
+    }
+  }
+
+  const baseline = Math.max(1e-6, (sum / total) * 0.25);
+  for (let i = 0; i < total; i++) weights[i] += baseline;
+
+  // Find the scale k so that sum(min(1, k * w)) matches the requested point budget
+  const target = density * total;
+  let lo = 0;
+  let hi = 1 / baseline; // Every pixel kept
+  for (let iter = 0; iter < 24; iter++) {
+    const k = (lo + hi) / 2;
+    let expected = 0;
+    for (let i = 0; i < total; i++) expected += Math.min(1, k * weights[i]);
+    if (expected < target) lo = k; else hi = k;
+  }
+
+  const scale = (lo + hi) / 2;
+  for (let i = 0; i < total; i++) {
+    if (random() < Math.min(1, scale * weights[i])) mask[i] = 1;
+  }
+};
+
+// Builds a keep-mask (1 = keep) over the pixel grid for the given density (0..1)
+export const createSamplingMask = (
+  width: number,
+  height: number,
+  density: number,
+  options: SamplingOptions,
+  colorData: Uint8ClampedArray,
+  depth: Float32Array
+): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  if (density >= 1) return mask.fill(1);
+
+  const random = createRandom(options.seed);
+  switch (options.strategy) {
+    case 'stratified':
+      sampleStratified(mask, width, height, density, random);
+      break;
+    case 'poisson':
+      samplePoissonDisk(mask, width, height, density, random);
+      break;
+    case 'detail':
+      sampleDetailWeighted(mask, width, height, density, random, colorData, depth);
+      break;
+    default:
+      sampleRandom(mask, density, random);
+  }
+  return mask;
+};
@@ -0,0 +1,491 @@
+import { DepthBuffer, StereoOptions, StereoResult } from "../types";
+import { boxFilter, loadImage, medianFilter3x3 } from "./imageProcessing";
+import { dataUrlToBytes, bytesToDataUrl } from "./dataUrl";
+
+export const DEFAULT_STEREO_OPTIONS: StereoOptions = {
+  matcher: 'sgm',
+  maxDisparity: 0.1,
+  blockSize: 7,
+  rectify: true
+};
+
+// A match must beat every non-neighbouring disparity by this factor to be kept
+const UNIQUENESS_RATIO = 0.95;
+// Left/right disparities may disagree by this many pixels
+const LR_TOLERANCE = 1;
+// Assumed far/near ratio when the farthest disparity is ~0 (background at infinity)
+const MAX_DEPTH_RATIO = 20;
+// SGM smoothness penalties (census costs are 0..24): small steps vs. depth jumps
+const SGM_P1 = 3;
+const SGM_P2 = 24;
+// Block matching costs are mean absolute differences (0..1) stored as fixed point
+const BLOCK_COST_SCALE = 4096;
+
+// --- SOURCES ---
+
+// Byte offset just past the EOI marker of the JPEG starting at `start`, or -1
+const findJpegEnd = (bytes: Uint8Array, start: number): number => {
+  let offset = start + 2;
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xFF) return -1;
+    const marker = bytes[offset + 1];
+    if (marker === 0xFF) { // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === 0xD9) return offset + 2;
+    if ((marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    if (offset + 3 >= bytes.length) return -1;
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (marker === 0xDA) {
+      // Entropy-coded data runs until a marker that is neither stuffing (FF00) nor a restart
+      while (offset + 1 < bytes.length) {
+        const next = bytes[offset + 1];
+        if (bytes[offset] === 0xFF && next !== 0x00 && !(next >= 0xD0 && next <= 0xD7)) break;
+        offset++;
+      }
+    }
+  }
+  return -1;
+};
+
+// MPO files (3D cameras, some phones) are JPEGs stored back to back
+export const splitMPO = (bytes: Uint8Array): Uint8Array[] => {
+  const images: Uint8Array[] = [];
+  let start = 0;
+  while (start + 1 < bytes.length && bytes[start] === 0xFF && bytes[start + 1] === 0xD8) {
+    const end = findJpegEnd(bytes, start);
+    if (end < 0) break;
+    images.push(bytes.subarray(start, end));
+
+    start = end;
+    while (start + 1 < bytes.length && !(bytes[start] === 0xFF && bytes[start + 1] === 0xD8)) start++;
+  }
+  return images;
+};
+
+// Cuts a side-by-side image into its two halves
+const splitSideBySide = async (src: string): Promise<[string, string]> => {
+  const img = await loadImage(src);
+  const half = Math.floor(img.width / 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = half;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported");
+
+  ctx.drawImage(img, 0, 0, half, img.height, 0, 0, half, img.height);
+  const left = canvas.toDataURL('image/jpeg', 0.95);
+  ctx.drawImage(img, half, 0, half, img.height, 0, 0, half, img.height);
+  const right = canvas.toDataURL('image/jpeg', 0.95);
+  return [left, right];
+};
+
+// Single-file stereo: MPO if it holds two images, otherwise a side-by-side pair.
+// `swap` is for cross-eyed layouts (right eye on the left).
+export const splitStereoImage = async (src: string, swap: boolean = false): Promise<{ left: string; right: string; layout: 'mpo' | 'sbs' }> => {
+  const images = splitMPO(dataUrlToBytes(src));
+  const [first, second, layout] = images.length >= 2
+    ? [bytesToDataUrl(images[0], 'image/jpeg'), bytesToDataUrl(images[1], 'image/jpeg'), 'mpo' as const]
+    : [...await splitSideBySide(src), 'sbs' as const];
+  return swap ? { left: second, right: first, layout } : { left: first, right: second, layout };
+};
+
+// --- RECTIFICATION ---
+
+export interface Rectification {
+  // Vertical offset of the right image: dy = a * u + b * v + c, with u, v in -0.5..0.5
+  a: number;
+  b: number;
+  c: number;
+  matches: number;
+}
+
+// Removes local brightness so exposure differences between the cameras don't bias matching
+export const removeLocalMean = (gray: Float32Array, width: number, height: number, radius: number = 7): Float32Array => {
+  const mean = boxFilter(gray, width, height, radius);
+  const out = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) out[i] = gray[i] - mean[i];
+  return out;
+};
+
+// Solves the 3x3 normal equations of a least-squares plane fit (Cramer's rule)
+const solve3 = (m: number[], r: number[]): number[] | null => {
+  const det = (a: number[]) =>
+    a[0] * (a[4] * a[8] - a[5] * a[7]) - a[1] * (a[3] * a[8] - a[5] * a[6]) + a[2] * (a[3] * a[7] - a[4] * a[6]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+  return [0, 1, 2].map(col => det(m.map((v, i) => (i % 3 === col ? r[Math.floor(i / 3)] : v))) / d);
+};
+
+// Estimates the vertical misalignment of an uncalibrated pair from sparse patch matches
+// on a grid, fitted as an affine field (covers shift, small rotation and scale).
+// Inputs are local-mean-removed grayscale images of the same size.
+export const estimateRectification = (
+  left: Float32Array,
+  right: Float32Array,
+  width: number,
+  height: number,
+  maxDisparity: number
+): Rectification | null => {
+  const radius = 6;
+  const step = Math.max(12, Math.floor(Math.min(width, height) / 16));
+  const maxShift = Math.max(4, Math.round(height * 0.05));
+  const margin = radius + maxShift;
+  const points: { u: number; v: number; dy: number }[] = [];
+
+  for (let y = margin; y < height - margin; y += step) {
+    for (let x = radius; x < width - radius; x += step) {
+      // Skip flat patches: they match anywhere
+      let texture = 0;
+      for (let py = -radius; py <= radius; py++) {
+        for (let px = -radius; px <= radius; px++) texture += Math.abs(left[(y + py) * width + x + px]);
+      }
+      if (texture / ((2 * radius + 1) ** 2) < 0.02) continue;
+
+      let best = Infinity, second = Infinity, bestDy = 0, bestDx = 0;
+      for (let dy = -maxShift; dy <= maxShift; dy++) {
+        for (let d = -4; d <= maxDisparity; d++) {
+          const rx = x - d;
+          if (rx - radius < 0 || rx + radius >= width) continue;
+          let cost = 0;
+          for (let py = -radius; py <= radius && cost < second; py++) {
+            const lRow = (y + py) * width + x;
+            const rRow = (y + dy + py) * width + rx;
+            for (let px = -radius; px <= radius; px++) cost += Math.abs(left[lRow + px] - right[rRow + px]);
+          }
+          if (cost < best) {
+            if (Math.abs(dy - bestDy) > 1 || Math.abs(d - bestDx) > 1) second = best;
+            best = cost;
+            bestDy = dy;
+            bestDx = d;
+          } else if (cost < second && (Math.abs(dy - bestDy) > 1 || Math.abs(d - bestDx) > 1)) {
+            second = cost;
+          }
+        }
+      }
+      if (best < second * 0.8) points.push({ u: x / width - 0.5, v: y / height - 0.5, dy: bestDy });
+    }
+  }
+
+  // Least squares with two rounds of outlier rejection
+  let inliers = points;
+  let params: number[] | null = null;
+  for (let round = 0; round < 3 && inliers.length >= 8; round++) {
+    const m = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const r = [0, 0, 0];
+    for (const p of inliers) {
+      const row = [p.u, p.v, 1];
+      for (let i = 0; i < 3; i++) {
+        r[i] += row[i] * p.dy;
+        for (let j = 0; j < 3; j++) m[i * 3 + j] += row[i] * row[j];
+      }
+    }
+    params = solve3(m, r);
+    if (!params) return null;
+    const [a, b, c] = params;
+    inliers = points.filter(p => Math.abs(a * p.u + b * p.v + c - p.dy) <= 1.5);
+  }
+  if (!params || inliers.length < 8) return null;
+  return { a: params[0], b: params[1], c: params[2], matches: inliers.length };
+};
+
+// Resamples the right image so its rows line up with the left image's
+export const applyRectification = (image: Float32Array, width: number, height: number, r: Rectification): Float32Array => {
+  const out = new Float32Array(image.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sy = Math.max(0, Math.min(height - 1, y + r.a * (x / width - 0.5) + r.b * (y / height - 0.5) + r.c));
+      const y0 = Math.floor(sy), y1 = Math.min(height - 1, y0 + 1), f = sy - y0;
+      out[y * width + x] = image[y0 * width + x] * (1 - f) + image[y1 * width + x] * f;
+    }
+  }
+  return out;
+};
+
+// --- MATCHING ---
+
+// Cost volume layout: (y * width + x) * disparities + d
+
+// Block matching: mean absolute difference over a square window, one box filter per disparity
+export const blockMatchingCost = (
+  left: Float32Array,
+  right: Float32Array,
+  width: number,
+  height: number,
+  disparities: number,
+  blockSize: number,
+  onProgress?: (fraction: number) => void
+): Uint16Array => {
+  const volume = new Uint16Array(width * height * disparities).fill(65535);
+  const diff = new Float32Array(width * height);
+  const radius = Math.max(1, Math.floor(blockSize / 2));
+
+  for (let d = 0; d < disparities; d++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        // Out-of-frame matches borrow the nearest column; they are masked below
+        diff[i] = Math.abs(left[i] - right[i - Math.min(d, x)]);
+      }
+    }
+    const cost = boxFilter(diff, width, height, radius);
+    for (let y = 0; y < height; y++) {
+      for (let x = d; x < width; x++) {
+        const i = y * width + x;
+        volume[i * disparities + d] = Math.min(65534, Math.round(cost[i] * BLOCK_COST_SCALE));
+      }
+    }
+    if (onProgress) onProgress((d + 1) / disparities);
+  }
+  return volume;
+};
+
+// 5x5 census transform: one bit per neighbour, set when darker than the centre
+const census5x5 = (gray: Float32Array, width: number, height: number): Uint32Array => {
+  const out = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = gray[y * width + x];
+      let bits = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        const ny = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -2; dx <= 2; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const nx = Math.min(width - 1, Math.max(0, x + dx));
+          bits = (bits << 1) | (gray[ny * width + nx] < center ? 1 : 0);
+        }
+      }
+      out[y * width + x] = bits >>> 0;
+    }
+  }
+  return out;
+};
+
+const popcount = (v: number) => {
+  v = v - ((v >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+};
+
+// Semi-global matching (Hirschmüller): census costs aggregated along 4 scanline directions.
+// The second penalty shrinks across intensity edges, where depth jumps are likely.
+export const semiGlobalCost = (
+  left: Float32Array,
+  right: Float32Array,
+  width: number,
+  height: number,
+  disparities: number,
+  onProgress?: (fraction: number) => void
+): Uint16Array => {
+  const D = disparities;
+  const censusL = census5x5(left, width, height);
+  const censusR = census5x5(right, width, height);
+  const cost = new Uint8Array(width * height * D);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      for (let d = 0; d < D; d++) {
+        cost[i * D + d] = d <= x ? popcount(censusL[i] ^ censusR[i - d]) : 24;
+      }
+    }
+  }
+
+  const sum = new Uint16Array(width * height * D);
+  const directions: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+  let prevRow = new Uint16Array(width * D);
+  let curRow = new Uint16Array(width * D);
+  let prevMin = new Uint16Array(width);
+  let curMin = new Uint16Array(width);
+
+  directions.forEach(([dx, dy], pass) => {
+    for (let yi = 0; yi < height; yi++) {
+      const y = dy >= 0 ? yi : height - 1 - yi;
+      for (let xi = 0; xi < width; xi++) {
+        const x = dx >= 0 ? xi : width - 1 - xi;
+        const i = y * width + x;
+        const px = x - dx, py = y - dy;
+        const base = i * D;
+        let rowMin = 65535;
+
+        if (px < 0 || px >= width || py < 0 || py >= height) {
+          for (let d = 0; d < D; d++) {
+            const l = cost[base + d];
+            curRow[x * D + d] = l;
+            sum[base + d] += l;
+            if (l < rowMin) rowMin = l;
+          }
+        } else {
+          // The predecessor is in the current row for horizontal paths, else in the previous one
+          const pred = dy === 0 ? curRow : prevRow;
+          const predMin = dy === 0 ? curMin[px] : prevMin[px];
+          const pb = px * D;
+          const grad = Math.abs(left[i] - left[py * width + px]) * 255;
+          const p2 = Math.max(SGM_P1 + 1, Math.round(SGM_P2 / Math.max(1, grad / 8)));
+          const jump = predMin + p2;
+          for (let d = 0; d < D; d++) {
+            let v = pred[pb + d];
+            if (d > 0 && pred[pb + d - 1] + SGM_P1 < v) v = pred[pb + d - 1] + SGM_P1;
+            if (d < D - 1 && pred[pb + d + 1] + SGM_P1 < v) v = pred[pb + d + 1] + SGM_P1;
+            if (jump < v) v = jump;
+            const l = cost[base + d] + v - predMin;
+            curRow[x * D + d] = l;
+            sum[base + d] += l;
+            if (l < rowMin) rowMin = l;
+          }
+        }
+        curMin[x] = rowMin;
+      }
+      // The finished row becomes the predecessor row
+      [prevRow, curRow] = [curRow, prevRow];
+      [prevMin, curMin] = [curMin, prevMin];
+      if (onProgress) onProgress((pass + (yi + 1) / height) / directions.length);
+    }
+  });
+  return sum;
+};
+
+// Winner-take-all with uniqueness check, sub-pixel refinement and left-right consistency.
+// Invalid pixels are NaN.
+export const selectDisparities = (volume: Uint16Array, width: number, height: number, disparities: number): Float32Array => {
+  const D = disparities;
+  const disparity = new Float32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const base = i * D;
+    let best = 0;
+    for (let d = 1; d < D; d++) if (volume[base + d] < volume[base + best]) best = d;
+    let second = 65535;
+    for (let d = 0; d < D; d++) {
+      if (Math.abs(d - best) > 1 && volume[base + d] < second) second = volume[base + d];
+    }
+    const bestCost = volume[base + best];
+    if (bestCost >= 65534 || bestCost > second * UNIQUENESS_RATIO) {
+      disparity[i] = NaN;
+      continue;
+    }
+
+    // Parabola through the neighbouring costs
+    let offset = 0;
+    if (best > 0 && best < D - 1) {
+      const cm = volume[base + best - 1], cp = volume[base + best + 1];
+      const denom = cm - 2 * bestCost + cp;
+      if (denom > 0) offset = (cm - cp) / (2 * denom);
+    }
+    disparity[i] = best + offset;
+  }
+
+  // Right-view disparities from the same volume: right pixel xr matches left pixel xr + d
+  const rightDisparity = new Int16Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let xr = 0; xr < width; xr++) {
+      let best = 0, bestCost = 65535;
+      for (let d = 0; d < D && xr + d < width; d++) {
+        const c = volume[(y * width + xr + d) * D + d];
+        if (c < bestCost) {
+          bestCost = c;
+          best = d;
+        }
+      }
+      rightDisparity[y * width + xr] = best;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const d = disparity[i];
+      if (Number.isNaN(d)) continue;
+      const xr = Math.round(x - d);
+      if (xr < 0 || Math.abs(rightDisparity[y * width + xr] - d) > LR_TOLERANCE) disparity[i] = NaN;
+    }
+  }
+  return disparity;
+};
+
+// --- DEPTH ---
+
+// Fills invalid pixels (occlusions, failed checks) with the farther of the nearest valid
+// neighbours on the same row: occluded regions belong to the background.
+const fillHoles = (disparity: Float32Array, width: number, height: number) => {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let x = 0;
+    while (x < width) {
+      if (!Number.isNaN(disparity[row + x])) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < width && Number.isNaN(disparity[row + x])) x++;
+      const leftValue = start > 0 ? disparity[row + start - 1] : NaN;
+      const rightValue = x < width ? disparity[row + x] : NaN;
+      const fill = Number.isNaN(leftValue) ? rightValue : Number.isNaN(rightValue) ? leftValue : Math.min(leftValue, rightValue);
+      for (let k = start; k < x; k++) disparity[row + k] = Number.isNaN(fill) ? 0 : fill;
+    }
+  }
+};
+
+// Disparity -> linear nearness (1 = near, 0 = far) over the robust disparity range,
+// so the result reads like any other depth map in the pipeline
+const disparityToDepth = (disparity: Float32Array): Float32Array => {
+  const sorted = Float32Array.from(disparity).sort();
+  const hi = Math.max(1e-3, sorted[Math.floor((sorted.length - 1) * 0.99)]);
+  const lo = Math.max(hi / MAX_DEPTH_RATIO, sorted[Math.floor((sorted.length - 1) * 0.01)]);
+  const farDistance = 1 / lo, nearDistance = 1 / hi;
+
+  const depth = new Float32Array(disparity.length);
+  for (let i = 0; i < disparity.length; i++) {
+    const distance = 1 / Math.max(lo, Math.min(hi, disparity[i]));
+    depth[i] = farDistance > nearDistance ? (farDistance - distance) / (farDistance - nearDistance) : 0.5;
+  }
+  return depth;
+};
+
+export type StereoProgress = (stage: 'rectify' | 'match' | 'refine', fraction: number) => void;
+
+// Full pipeline on two same-sized grayscale images (0..1): rectify, match, check, fill, convert
+export const estimateStereoDepth = (
+  leftGray: Float32Array,
+  rightGray: Float32Array,
+  width: number,
+  height: number,
+  options: StereoOptions,
+  onProgress?: StereoProgress
+): StereoResult => {
+  const disparities = Math.max(8, Math.round(width * options.maxDisparity));
+  const leftFlat = removeLocalMean(leftGray, width, height);
+  let rightFlat = removeLocalMean(rightGray, width, height);
+  let right = rightGray;
+
+  let rectification: StereoResult['rectification'] = null;
+  if (options.rectify) {
+    const r = estimateRectification(leftFlat, rightFlat, width, height, disparities);
+    if (r) {
+      right = applyRectification(rightGray, width, height, r);
+      rightFlat = applyRectification(rightFlat, width, height, r);
+      rectification = { matches: r.matches, maxShift: Math.abs(r.c) + (Math.abs(r.a) + Math.abs(r.b)) / 2 };
+    }
+  }
+  onProgress?.('rectify', 1);
+
+  const volume = options.matcher === 'sgm'
+    ? semiGlobalCost(leftGray, right, width, height, disparities, (f) => onProgress?.('match', f))
+    : blockMatchingCost(leftFlat, rightFlat, width, height, disparities, options.blockSize, (f) => onProgress?.('match', f));
+
+  const disparity = selectDisparities(volume, width, height, disparities);
+  let valid = 0;
+  for (let i = 0; i < disparity.length; i++) if (!Number.isNaN(disparity[i])) valid++;
+  onProgress?.('refine', 0.3);
+
+  fillHoles(disparity, width, height);
+  const smoothed = medianFilter3x3(disparity, width, height);
+  onProgress?.('refine', 0.7);
+
+  const depth: DepthBuffer = { data: disparityToDepth(smoothed), width, height };
+  onProgress?.('refine', 1);
+  return { depth, validFraction: valid / Math.max(1, disparity.length), rectification };
+};
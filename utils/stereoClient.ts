@@ -0,0 +1,68 @@
+import { StereoOptions, StereoRequest, StereoResponse, StereoResult, StereoStage } from "../types";
+import { createAbortError } from "./cloudBuilderClient";
+
+export interface StereoParams {
+  leftSrc: string;
+  rightSrc: string;
+  maxSize: number;
+  options: StereoOptions;
+}
+
+export interface StereoCallbacks {
+  // Overall progress 0..1 across decode, rectify, match and refine
+  onProgress?: (progress: number, stage: StereoStage) => void;
+  signal?: AbortSignal;
+}
+
+let nextRequestId = 1;
+
+// Runs stereo matching in its own Web Worker (terminated on completion or abort),
+// mirroring buildPointCloudInWorker
+export const estimateStereoDepthInWorker = (
+  params: StereoParams,
+  { onProgress, signal }: StereoCallbacks = {}
+): Promise<StereoResult> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const worker = new Worker(new URL('../workers/stereo.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<StereoResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.stage);
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve(message.result);
+      } else {
+        cleanup();
+        reject(new Error(message.message));
+      }
+    };
+
+    const handleError = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || "Stereo worker crashed"));
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: StereoRequest = { type: 'stereo', id, ...params };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,123 @@
+import { DepthBuffer, SequenceFrame } from "../types";
+import { fitDimensions } from "./imageProcessing";
+import { resampleDepthBuffer } from "./depthMaps";
+import { createAbortError } from "./cloudBuilderClient";
+
+export interface FrameExtractionOptions {
+  fps: number;
+  maxFrames?: number;
+  // Longest side of the extracted stills
+  maxSize?: number;
+}
+
+// Depth change (0..1) above which a pixel is treated as moving and is not smoothed
+const MOTION_THRESHOLD = 0.15;
+
+const loadVideo = (src: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not decode video"));
+    video.src = src;
+  });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Could not seek video"));
+    video.currentTime = time;
+  });
+};
+
+// Samples stills from a video at a fixed rate by seeking and drawing each frame to a canvas
+export const extractVideoFrames = async (
+  src: string,
+  { fps, maxFrames = 48, maxSize = 640 }: FrameExtractionOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<SequenceFrame[]> => {
+  const video = await loadVideo(src);
+  if (!Number.isFinite(video.duration) || video.duration <= 0) throw new Error("Video has no duration");
+
+  const count = Math.max(1, Math.min(maxFrames, Math.floor(video.duration * fps)));
+  const { width, height } = fitDimensions(video.videoWidth, video.videoHeight, maxSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const frames: SequenceFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    if (signal?.aborted) {
+      video.removeAttribute('src');
+      video.load();
+      throw createAbortError('Frame extraction cancelled');
+    }
+    // Sample the middle of each interval, never past the last decodable frame
+    const time = Math.min((i + 0.5) / fps, video.duration - 0.01);
+    await seekTo(video, time);
+    ctx.drawImage(video, 0, 0, width, height);
+    frames.push({ time, image: canvas.toDataURL('image/jpeg', 0.9), depth: null });
+    if (onProgress) onProgress((i + 1) / count);
+  }
+
+  video.removeAttribute('src');
+  video.load();
+  return frames;
+};
+
+// Least-squares scale + shift mapping `current` onto `previous` (subsampled), so per-frame
+// depth maps that were normalised differently by the model line up before blending
+const fitScaleShift = (current: Float32Array, previous: Float32Array) => {
+  const step = Math.max(1, Math.floor(current.length / 20000));
+  let n = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (let i = 0; i < current.length; i += step) {
+    const x = current[i], y = previous[i];
+    n++;
+    sx += x;
+    sy += y;
+    sxx += x * x;
+    sxy += x * y;
+  }
+  const variance = n * sxx - sx * sx;
+  if (n === 0 || variance < 1e-9) return { scale: 1, shift: 0 };
+  const scale = (n * sxy - sx * sy) / variance;
+  // A negative or extreme fit means the frames disagree too much; leave the frame as is
+  if (scale < 0.5 || scale > 2) return { scale: 1, shift: 0 };
+  return { scale, shift: (sy - scale * sx) / n };
+};
+
+// Reduces depth flicker across a sequence: each frame is aligned (scale/shift) to the
+// previous smoothed frame, then blended with it by an exponential moving average.
+// Pixels whose depth changed by more than MOTION_THRESHOLD follow the new frame so
+// moving subjects don't leave trails. strength 0 = off, towards 1 = heavier smoothing.
+export const smoothDepthSequence = (frames: DepthBuffer[], strength: number): DepthBuffer[] => {
+  if (frames.length === 0) return [];
+  const { width, height } = frames[0];
+  const resampled = frames.map(frame => ({ data: resampleDepthBuffer(frame, width, height), width, height }));
+  if (strength <= 0) return resampled;
+
+  const out: DepthBuffer[] = [resampled[0]];
+  for (let f = 1; f < resampled.length; f++) {
+    const previous = out[f - 1].data;
+    const current = resampled[f].data;
+    const { scale, shift } = fitScaleShift(current, previous);
+    const data = new Float32Array(current.length);
+
+    for (let i = 0; i < current.length; i++) {
+      const aligned = Math.max(0, Math.min(1, current[i] * scale + shift));
+      const motion = Math.abs(aligned - previous[i]) / MOTION_THRESHOLD;
+      const weight = strength * Math.max(0, 1 - motion);
+      data[i] = previous[i] * weight + aligned * (1 - weight);
+    }
+    out.push({ data, width, height });
+  }
+  return out;
+};
@@ -0,0 +1,216 @@
+import { VoxelGrid } from "./voxelGrid";
+import { Rgb, medianCutPalette, nearestPaletteIndex, packRgb, unpackRgb } from "./palette";
+
+// MagicaVoxel limits: 256 voxels per model axis, 255 palette colours (index 0 = empty)
+const MAX_MODEL_SIZE = 256;
+const MAX_COLORS = 255;
+
+interface VoxModel {
+  size: [number, number, number];
+  // Model position (corner) inside the full grid, in vox axes
+  offset: [number, number, number];
+  // x, y, z, colorIndex per voxel
+  voxels: number[];
+}
+
+// Growable little-endian byte writer
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + n) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  int32(value: number) {
+    this.reserve(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  uint8(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.uint8(text.charCodeAt(i));
+  }
+
+  // STRING: int32 length + bytes
+  string(text: string) {
+    this.int32(text.length);
+    this.ascii(text);
+  }
+
+  // DICT: int32 count + key/value STRING pairs
+  dict(entries: Record<string, string>) {
+    const keys = Object.keys(entries);
+    this.int32(keys.length);
+    for (const key of keys) {
+      this.string(key);
+      this.string(entries[key]);
+    }
+  }
+
+  append(other: ByteWriter) {
+    this.reserve(other.length);
+    this.bytes.set(other.toBytes(), this.length);
+    this.length += other.length;
+  }
+
+  toBytes() {
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+// Chunk: id, content size, children size, content, children
+const writeChunk = (out: ByteWriter, id: string, content: ByteWriter, children?: ByteWriter) => {
+  out.ascii(id);
+  out.int32(content.length);
+  out.int32(children ? children.length : 0);
+  out.append(content);
+  if (children) out.append(children);
+};
+
+// Maps every distinct grid colour to a palette index (1..255), reducing by median cut when needed
+const buildVoxPalette = (grid: VoxelGrid) => {
+  const distinct = new Set<number>();
+  for (let i = 0; i < grid.cells.length; i++) {
+    if (grid.cells[i]) distinct.add(grid.cells[i] & 0xFFFFFF);
+  }
+
+  let palette: Rgb[];
+  const indexOf = new Map<number, number>();
+  if (distinct.size <= MAX_COLORS) {
+    palette = Array.from(distinct).map(unpackRgb);
+    Array.from(distinct).forEach((color, i) => indexOf.set(color, i + 1));
+  } else {
+    palette = medianCutPalette(Array.from(distinct).map(unpackRgb), MAX_COLORS);
+    distinct.forEach(color => indexOf.set(color, nearestPaletteIndex(unpackRgb(color), palette) + 1));
+  }
+  return { palette, indexOf };
+};
+
+// Vox is Z-up: grid X stays X, grid depth (towards the viewer) becomes -Y, grid up becomes Z
+const splitIntoModels = (grid: VoxelGrid, indexOf: Map<number, number>): VoxModel[] => {
+  const total: [number, number, number] = [grid.sizeX, grid.sizeZ, grid.sizeY];
+  const counts = total.map(n => Math.ceil(n / MAX_MODEL_SIZE));
+  const models = new Map<number, VoxModel>();
+
+  for (let gz = 0; gz < grid.sizeZ; gz++) {
+    for (let gy = 0; gy < grid.sizeY; gy++) {
+      for (let gx = 0; gx < grid.sizeX; gx++) {
+        const cell = grid.cells[(gz * grid.sizeY + gy) * grid.sizeX + gx];
+        if (!cell) continue;
+
+        const v = [gx, grid.sizeZ - 1 - gz, gy];
+        const m = v.map(c => Math.floor(c / MAX_MODEL_SIZE));
+        const key = (m[2] * counts[1] + m[1]) * counts[0] + m[0];
+
+        let model = models.get(key);
+        if (!model) {
+          const offset = m.map(c => c * MAX_MODEL_SIZE) as [number, number, number];
+          model = {
+            offset,
+            size: offset.map((o, axis) => Math.min(MAX_MODEL_SIZE, total[axis] - o)) as [number, number, number],
+            voxels: []
+          };
+          models.set(key, model);
+        }
+        model.voxels.push(v[0] - model.offset[0], v[1] - model.offset[1], v[2] - model.offset[2], indexOf.get(cell & 0xFFFFFF)!);
+      }
+    }
+  }
+  return Array.from(models.values());
+};
+
+// Serializes a voxel grid to MagicaVoxel .vox (SIZE/XYZI per model + RGBA palette).
+// Grids larger than 256 on any axis are split into several models placed with a scene graph.
+export const exportVoxelGridToVOX = (grid: VoxelGrid): Blob => {
+  const { palette, indexOf } = buildVoxPalette(grid);
+  const models = splitIntoModels(grid, indexOf);
+  const children = new ByteWriter();
+
+  for (const model of models) {
+    const size = new ByteWriter();
+    model.size.forEach(n => size.int32(n));
+    writeChunk(children, 'SIZE', size);
+
+    const xyzi = new ByteWriter();
+    xyzi.int32(model.voxels.length / 4);
+    for (const value of model.voxels) xyzi.uint8(value);
+    writeChunk(children, 'XYZI', xyzi);
+  }
+
+  if (models.length > 1) {
+    // Scene graph: root transform -> group -> one transform + shape per model
+    const total = [grid.sizeX, grid.sizeZ, grid.sizeY];
+
+    const rootTransform = new ByteWriter();
+    rootTransform.int32(0); // node id
+    rootTransform.dict({});
+    rootTransform.int32(1); // child (group)
+    rootTransform.int32(-1); // reserved
+    rootTransform.int32(-1); // layer
+    rootTransform.int32(1); // frames
+    rootTransform.dict({});
+    writeChunk(children, 'nTRN', rootTransform);
+
+    const group = new ByteWriter();
+    group.int32(1);
+    group.dict({});
+    group.int32(models.length);
+    models.forEach((_, i) => group.int32(2 + i * 2));
+    writeChunk(children, 'nGRP', group);
+
+    models.forEach((model, i) => {
+      // Translations place model centers relative to the center of the whole grid
+      const t = model.offset.map((o, axis) =>
+        o + Math.floor(model.size[axis] / 2) - Math.floor(total[axis] / 2));
+
+      const transform = new ByteWriter();
+      transform.int32(2 + i * 2);
+      transform.dict({});
+      transform.int32(3 + i * 2);
+      transform.int32(-1);
+      transform.int32(0);
+      transform.int32(1);
+      transform.dict({ _t: t.join(' ') });
+      writeChunk(children, 'nTRN', transform);
+
+      const shape = new ByteWriter();
+      shape.int32(3 + i * 2);
+      shape.dict({});
+      shape.int32(1);
+      shape.int32(i); // model id
+      shape.dict({});
+      writeChunk(children, 'nSHP', shape);
+    });
+  }
+
+  // Palette entry i is colour index i + 1; unused slots stay black
+  const rgba = new ByteWriter();
+  for (let i = 0; i < 256; i++) {
+    const packed = i < palette.length ? packRgb(palette[i]) : 0;
+    rgba.uint8((packed >> 16) & 0xFF);
+    rgba.uint8((packed >> 8) & 0xFF);
+    rgba.uint8(packed & 0xFF);
+    rgba.uint8(255);
+  }
+  writeChunk(children, 'RGBA', rgba);
+
+  const file = new ByteWriter();
+  file.ascii('VOX ');
+  file.int32(150);
+  writeChunk(file, 'MAIN', new ByteWriter(), children);
+
+  return new Blob([file.toBytes()], { type: 'application/octet-stream' });
+};
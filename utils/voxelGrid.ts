@@ -0,0 +1,228 @@
+import { ProcessedPointCloud, VoxelFillMode } from "../types";
+
+// Dense voxel grid in image space: X = pixel column, Y = pixel row (flipped so +Y is up),
+// Z = quantised depth. Each cell holds 0 (empty) or 0x1RRGGBB.
+export interface VoxelGrid {
+  sizeX: number;
+  sizeY: number;
+  sizeZ: number;
+  cells: Uint32Array;
+  // World position of the center of cell (0, 0, 0)
+  origin: [number, number, number];
+  filledCount: number;
+}
+
+export interface VoxelMesh {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+  // Center of the merged face each vertex belongs to (drives the explosion effect)
+  faceCenters: Float32Array;
+  indices: Uint32Array;
+  quadCount: number;
+}
+
+const FILLED = 0x1000000;
+
+export const packVoxelColor = (r: number, g: number, b: number) =>
+  FILLED | (Math.round(r * 255) << 16) | (Math.round(g * 255) << 8) | Math.round(b * 255);
+
+export const voxelIndex = (grid: VoxelGrid, x: number, y: number, z: number) =>
+  (z * grid.sizeY + y) * grid.sizeX + x;
+
+// Builds the voxel grid from a voxel-mode cloud (one surface point per pixel).
+// 'shell' keeps only the surface, 'gaps' closes vertical steps between neighbouring pixels
+// so steep slopes have no holes, 'columns' extrudes every pixel down to the back plane.
+export const buildVoxelGrid = (
+  cloud: ProcessedPointCloud,
+  fill: VoxelFillMode,
+  depthExaggeration: number = 1
+): VoxelGrid => {
+  const { width, height, count } = cloud;
+  const surface = new Int32Array(width * height).fill(-1); // Point index per pixel
+  const heights = new Int32Array(width * height);
+
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const pixel = cloud.pixelIndices[i];
+    const z = Math.round(cloud.positions[i * 3 + 2] * depthExaggeration);
+    surface[pixel] = i;
+    heights[pixel] = z;
+    if (z < minZ) minZ = z;
+    if (z > maxZ) maxZ = z;
+  }
+  if (count === 0) {
+    minZ = 0;
+    maxZ = 0;
+  }
+
+  const sizeX = width;
+  const sizeY = height;
+  const sizeZ = maxZ - minZ + 1;
+  const cells = new Uint32Array(sizeX * sizeY * sizeZ);
+  let filledCount = 0;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const pixel = py * width + px;
+      const point = surface[pixel];
+      if (point < 0) continue;
+
+      const top = heights[pixel] - minZ;
+      let bottom = top;
+
+      if (fill === 'columns') {
+        bottom = 0;
+      } else if (fill === 'gaps') {
+        // Extend down to one above the lowest existing 4-neighbour
+        const neighbours = [
+          px > 0 ? pixel - 1 : -1,
+          px < width - 1 ? pixel + 1 : -1,
+          py > 0 ? pixel - width : -1,
+          py < height - 1 ? pixel + width : -1
+        ];
+        for (const n of neighbours) {
+          if (n < 0 || surface[n] < 0) continue;
+          bottom = Math.min(bottom, heights[n] - minZ + 1);
+        }
+      }
+
+      const color = packVoxelColor(
+        cloud.colors[point * 3],
+        cloud.colors[point * 3 + 1],
+        cloud.colors[point * 3 + 2]
+      );
+      const y = height - 1 - py;
+      for (let z = Math.max(0, bottom); z <= top; z++) {
+        const idx = (z * sizeY + y) * sizeX + px;
+        if (!cells[idx]) filledCount++;
+        cells[idx] = color;
+      }
+    }
+  }
+
+  return {
+    sizeX,
+    sizeY,
+    sizeZ,
+    cells,
+    origin: [-width / 2, height / 2 - (height - 1), minZ],
+    filledCount
+  };
+};
+
+// Greedy meshing: per axis, sweep slices and merge coplanar faces of the same color
+// and orientation into maximal rectangles. Only faces between filled and empty cells are emitted.
+export const greedyMeshVoxelGrid = (grid: VoxelGrid): VoxelMesh => {
+  const dims = [grid.sizeX, grid.sizeY, grid.sizeZ];
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const colors: number[] = [];
+  const faceCenters: number[] = [];
+  const indices: number[] = [];
+  let quadCount = 0;
+
+  const strides = [1, grid.sizeX, grid.sizeX * grid.sizeY];
+  const cellIndex = (p: number[]) => p[2] * strides[2] + p[1] * strides[1] + p[0];
+
+  // Cell i spans [i - 0.5, i + 0.5] around its center
+  const toWorld = (p: number[]) => [
+    p[0] - 0.5 + grid.origin[0],
+    p[1] - 0.5 + grid.origin[1],
+    p[2] - 0.5 + grid.origin[2]
+  ];
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const x = [0, 0, 0];
+    // Index step to the neighbour across the plane (+1 along d)
+    const step = strides[d];
+    const mask = new Int32Array(dims[u] * dims[v]);
+
+    for (x[d] = -1; x[d] < dims[d];) {
+      // Face mask for the plane between slice x[d] and x[d] + 1.
+      // Positive values face +d, negative values face -d; magnitude is the color.
+      let n = 0;
+      for (x[v] = 0; x[v] < dims[v]; x[v]++) {
+        for (x[u] = 0; x[u] < dims[u]; x[u]++) {
+          const idx = cellIndex(x);
+          const a = x[d] >= 0 ? grid.cells[idx] : 0;
+          const b = x[d] < dims[d] - 1 ? grid.cells[idx + step] : 0;
+          mask[n++] = (a !== 0) === (b !== 0) ? 0 : a !== 0 ? a : -b;
+        }
+      }
+      x[d]++;
+
+      n = 0;
+      for (let j = 0; j < dims[v]; j++) {
+        for (let i = 0; i < dims[u];) {
+          const key = mask[n];
+          if (key === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          let w = 1;
+          while (i + w < dims[u] && mask[n + w] === key) w++;
+
+          let h = 1;
+          grow: for (; j + h < dims[v]; h++) {
+            for (let k = 0; k < w; k++) {
+              if (mask[n + k + h * dims[u]] !== key) break grow;
+            }
+          }
+
+          x[u] = i;
+          x[v] = j;
+          const du = [0, 0, 0];
+          const dv = [0, 0, 0];
+          du[u] = w;
+          dv[v] = h;
+
+          const corners = [
+            toWorld(x),
+            toWorld([x[0] + du[0], x[1] + du[1], x[2] + du[2]]),
+            toWorld([x[0] + du[0] + dv[0], x[1] + du[1] + dv[1], x[2] + du[2] + dv[2]]),
+            toWorld([x[0] + dv[0], x[1] + dv[1], x[2] + dv[2]])
+          ];
+          const center = [0, 1, 2].map(c => (corners[0][c] + corners[2][c]) / 2);
+          const color = Math.abs(key);
+          const r = ((color >> 16) & 0xFF) / 255;
+          const g = ((color >> 8) & 0xFF) / 255;
+          const b = (color & 0xFF) / 255;
+          const sign = key > 0 ? 1 : -1;
+
+          const base = quadCount * 4;
+          for (const corner of corners) {
+            positions.push(corner[0], corner[1], corner[2]);
+            normals.push(d === 0 ? sign : 0, d === 1 ? sign : 0, d === 2 ? sign : 0);
+            colors.push(r, g, b);
+            faceCenters.push(center[0], center[1], center[2]);
+          }
+          // du x dv points along +d, so flip the winding for back faces
+          if (sign > 0) indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+          else indices.push(base, base + 2, base + 1, base, base + 3, base + 2);
+          quadCount++;
+
+          for (let l = 0; l < h; l++) {
+            for (let k = 0; k < w; k++) mask[n + k + l * dims[u]] = 0;
+          }
+          i += w;
+          n += w;
+        }
+      }
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    colors: new Float32Array(colors),
+    faceCenters: new Float32Array(faceCenters),
+    indices: new Uint32Array(indices),
+    quadCount
+  };
+};
@@ -0,0 +1,154 @@
+import { SceneVoxel, VoxelMaterial, VoxelPaletteEntry, VoxelScene } from "../types";
+import { VoxelGrid, packVoxelColor, voxelIndex } from "./voxelGrid";
+
+// Structured voxel scenes: the compact wire format models are asked for, its validation,
+// and conversion to voxel grids for the viewer and the .vox exporter.
+//
+// Wire format (also what the JSON export writes):
+//   { "title": "...", "size": [x, y, z],
+//     "palette": [{ "color": "#rrggbb", "material": "metal" }, ...],
+//     "voxels": [[x, y, z, paletteIndex], ...] }
+// y is up and z points towards the viewer. Voxel objects { x, y, z, color } are accepted too.
+
+export const VOXEL_MATERIALS: VoxelMaterial[] = ['plastic', 'matte', 'metal', 'glass', 'emissive'];
+export const MAX_SCENE_SIZE = 64;
+export const MAX_SCENE_VOXELS = 32768;
+export const MAX_SCENE_COLORS = 64;
+
+export interface VoxelSceneValidation {
+  valid: boolean;
+  reason?: string; // Why the scene was rejected
+  scene: VoxelScene | null;
+  dropped: number; // Voxels removed (out of bounds, bad colour index, duplicates, over the limit)
+}
+
+// One grid per material, all sharing the scene's bounds
+export interface VoxelLayer {
+  material: VoxelMaterial;
+  grid: VoxelGrid;
+}
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+
+const isCell = (value: unknown): value is number => Number.isInteger(value);
+
+const parsePaletteEntry = (raw: unknown): VoxelPaletteEntry | null => {
+  const entry = typeof raw === 'string' ? { color: raw } : raw as { color?: unknown; material?: unknown } | null;
+  const match = entry && typeof entry.color === 'string' ? entry.color.trim().match(HEX_COLOR) : null;
+  if (!match) return null;
+  const material = VOXEL_MATERIALS.find(m => m === (entry as { material?: unknown }).material);
+  return material && material !== 'plastic'
+    ? { color: `#${match[1].toLowerCase()}`, material }
+    : { color: `#${match[1].toLowerCase()}` };
+};
+
+const parseVoxel = (raw: unknown): SceneVoxel | null => {
+  if (Array.isArray(raw)) {
+    const [x, y, z, color] = raw;
+    return isCell(x) && isCell(y) && isCell(z) && isCell(color) ? { x, y, z, color } : null;
+  }
+  const voxel = raw as Partial<SceneVoxel> | null;
+  if (!voxel || typeof voxel !== 'object') return null;
+  return isCell(voxel.x) && isCell(voxel.y) && isCell(voxel.z) && isCell(voxel.color)
+    ? { x: voxel.x, y: voxel.y, z: voxel.z, color: voxel.color }
+    : null;
+};
+
+// Checks a parsed scene: the structure must be right, single bad voxels are dropped.
+// A scene that loses most of its voxels is rejected since the model clearly misread the bounds.
+export const validateVoxelScene = (raw: unknown): VoxelSceneValidation => {
+  const invalid = (reason: string): VoxelSceneValidation => ({ valid: false, reason, scene: null, dropped: 0 });
+  if (!raw || typeof raw !== 'object') return invalid("Scene is not a JSON object");
+  const data = raw as { title?: unknown; size?: unknown; palette?: unknown; voxels?: unknown };
+
+  if (!Array.isArray(data.palette) || data.palette.length === 0) return invalid("Scene has no palette");
+  if (data.palette.length > MAX_SCENE_COLORS) return invalid(`Palette has more than ${MAX_SCENE_COLORS} colors`);
+  const palette: VoxelPaletteEntry[] = [];
+  for (const entry of data.palette) {
+    const parsed = parsePaletteEntry(entry);
+    if (!parsed) return invalid(`Invalid palette color ${JSON.stringify(entry)}`);
+    palette.push(parsed);
+  }
+
+  if (!Array.isArray(data.voxels) || data.voxels.length === 0) return invalid("Scene has no voxels");
+  const size = data.size;
+  if (!Array.isArray(size) || size.length !== 3 || !size.every(n => isCell(n) && n >= 1 && n <= MAX_SCENE_SIZE)) {
+    return invalid(`Scene size must be three integers from 1 to ${MAX_SCENE_SIZE}`);
+  }
+  const [sx, sy, sz] = size as [number, number, number];
+
+  // Later duplicates win, like painting over a cell
+  const cells = new Map<number, SceneVoxel>();
+  let rejected = 0;
+  for (const entry of data.voxels) {
+    const voxel = parseVoxel(entry);
+    if (!voxel || voxel.x < 0 || voxel.y < 0 || voxel.z < 0 || voxel.x >= sx || voxel.y >= sy || voxel.z >= sz
+        || voxel.color < 0 || voxel.color >= palette.length) {
+      rejected++;
+      continue;
+    }
+    cells.set((voxel.z * sy + voxel.y) * sx + voxel.x, voxel);
+  }
+
+  const voxels = Array.from(cells.values()).slice(0, MAX_SCENE_VOXELS);
+  if (voxels.length === 0) return invalid("Scene has no valid voxels");
+  if (rejected > data.voxels.length / 2) return invalid(`${rejected} of ${data.voxels.length} voxels are out of bounds or malformed`);
+
+  return {
+    valid: true,
+    scene: {
+      ...(typeof data.title === 'string' && data.title.trim() ? { title: data.title.trim().slice(0, 80) } : {}),
+      size: [sx, sy, sz],
+      palette,
+      voxels
+    },
+    dropped: data.voxels.length - voxels.length
+  };
+};
+
+// Back to the compact wire format (JSON export)
+export const serializeVoxelScene = (scene: VoxelScene): string => JSON.stringify({
+  ...(scene.title ? { title: scene.title } : {}),
+  size: scene.size,
+  palette: scene.palette,
+  voxels: scene.voxels.map(v => [v.x, v.y, v.z, v.color])
+});
+
+const emptyGrid = ([sizeX, sizeY, sizeZ]: [number, number, number]): VoxelGrid => ({
+  sizeX,
+  sizeY,
+  sizeZ,
+  cells: new Uint32Array(sizeX * sizeY * sizeZ),
+  // Centered on X / Z, standing on y = 0
+  origin: [-(sizeX - 1) / 2, 0, -(sizeZ - 1) / 2],
+  filledCount: 0
+});
+
+const paletteColors = (scene: VoxelScene) => scene.palette.map(entry => {
+  const n = parseInt(entry.color.slice(1), 16);
+  return packVoxelColor(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+});
+
+const fillGrid = (grid: VoxelGrid, voxels: SceneVoxel[], colors: number[]) => {
+  for (const v of voxels) {
+    const idx = voxelIndex(grid, v.x, v.y, v.z);
+    if (!grid.cells[idx]) grid.filledCount++;
+    grid.cells[idx] = colors[v.color];
+  }
+  return grid;
+};
+
+// Every voxel in one grid (for .vox export)
+export const buildSceneGrid = (scene: VoxelScene): VoxelGrid =>
+  fillGrid(emptyGrid(scene.size), scene.voxels, paletteColors(scene));
+
+// One grid per material in use, so each can be meshed and shaded separately
+export const buildSceneLayers = (scene: VoxelScene): VoxelLayer[] => {
+  const colors = paletteColors(scene);
+  return VOXEL_MATERIALS
+    .map(material => ({
+      material,
+      grid: fillGrid(emptyGrid(scene.size), scene.voxels.filter(v => (scene.palette[v.color].material || 'plastic') === material), colors)
+    }))
+    .filter(layer => layer.grid.filledCount > 0);
+};
@@ -0,0 +1,117 @@
+import { buildPointCloud, fitDimensions } from '../utils/imageProcessing';
+import { decodeDepthSource, resampleDepthBuffer } from '../utils/depthMaps';
+import { buildPointOctree } from '../utils/octree';
+import { mergeClouds } from '../utils/registration';
+import { CloudBuildResponse, CloudBuildStage, CloudMergeRequest, CloudWorkerRequest, ProcessedPointCloud } from '../types';
+
+// Overall progress reserved for each stage of the pipeline
+const STAGE_RANGES: Record<CloudBuildStage, [number, number]> = {
+  decode: [0, 0.15],
+  resize: [0.15, 0.25],
+  build: [0.25, 0.9],
+  // Merge requests skip decode / resize / build
+  merge: [0, 0.9],
+  index: [0.9, 1.0]
+};
+
+// Hard cap on the pixel grid a cloud is built from, whatever the requested resolution.
+// "Full" on a 12 MP phone photo would otherwise need ~1 GB of per-point arrays in this worker.
+const MAX_CLOUD_PIXELS = 8 * 1024 * 1024;
+
+const post = (message: CloudBuildResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const reportProgress = (id: number, stage: CloudBuildStage, fraction: number) => {
+  const [start, end] = STAGE_RANGES[stage];
+  post({ type: 'progress', id, stage, progress: start + (end - start) * fraction });
+};
+
+// Decode a data URL (or raw base64 JPEG) off the main thread
+const decodeBitmap = async (src: string): Promise<ImageBitmap> => {
+  const url = src.startsWith('data:') ? src : `data:image/jpeg;base64,${src}`;
+  const blob = await (await fetch(url)).blob();
+  return createImageBitmap(blob);
+};
+
+// OffscreenCanvas equivalent of resizeImage, returning raw RGBA pixels
+const resizeToPixels = (bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get OffscreenCanvas context");
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const postCloud = (id: number, cloud: ProcessedPointCloud) => {
+  const transfer: Transferable[] = [cloud.positions.buffer, cloud.colors.buffer, cloud.pixelIndices.buffer];
+  if (cloud.normals) transfer.push(cloud.normals.buffer);
+  post({ type: 'result', id, cloud }, transfer);
+};
+
+const merge = (request: CloudMergeRequest) => {
+  const { id } = request;
+  const merged = mergeClouds(request.clouds, request.transforms, request.dedupeSize, (fraction) => reportProgress(id, 'merge', fraction));
+  // A merge into a large reference keeps its level-of-detail octree
+  const cloud = request.octree
+    ? buildPointOctree(merged, {}, (fraction) => reportProgress(id, 'index', fraction))
+    : merged;
+  postCloud(id, cloud);
+};
+
+self.onmessage = async (event: MessageEvent<CloudWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'merge') {
+    try {
+      merge(request);
+    } catch (error) {
+      post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+  if (request.type !== 'build') return;
+  const { id } = request;
+
+  try {
+    reportProgress(id, 'decode', 0);
+    const [colorBitmap, depthBuffer] = await Promise.all([
+      decodeBitmap(request.colorSrc),
+      decodeDepthSource(request.depthSrc, request.depthEncoding)
+    ]);
+    reportProgress(id, 'decode', 1);
+
+    // Depth is resampled to the color grid so both arrays line up pixel for pixel
+    const fitted = fitDimensions(colorBitmap.width, colorBitmap.height, request.targetResolution);
+    const shrink = Math.min(1, Math.sqrt(MAX_CLOUD_PIXELS / (fitted.width * fitted.height)));
+    const width = Math.max(1, Math.floor(fitted.width * shrink));
+    const height = Math.max(1, Math.floor(fitted.height * shrink));
+    const colorData = resizeToPixels(colorBitmap, width, height);
+    reportProgress(id, 'resize', 0.5);
+    // Depth stays in float so 16-bit and PFM sources keep their precision
+    const depth = resampleDepthBuffer(depthBuffer, width, height);
+    colorBitmap.close();
+    reportProgress(id, 'resize', 1);
+
+    const built = buildPointCloud(
+      colorData,
+      depth,
+      width,
+      height,
+      request.samplingFactor,
+      request.isVoxelMode,
+      request.options,
+      (fraction) => reportProgress(id, 'build', fraction)
+    );
+
+    const cloud = request.options.octree
+      ? buildPointOctree(built, {}, (fraction) => reportProgress(id, 'index', fraction))
+      : built;
+
+    postCloud(id, cloud);
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
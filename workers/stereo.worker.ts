@@ -0,0 +1,59 @@
+import { fitDimensions, luminance } from '../utils/imageProcessing';
+import { estimateStereoDepth } from '../utils/stereo';
+import { StereoRequest, StereoResponse, StereoStage } from '../types';
+
+// Overall progress reserved for each stage of the pipeline
+const STAGE_RANGES: Record<StereoStage, [number, number]> = {
+  decode: [0, 0.1],
+  rectify: [0.1, 0.25],
+  match: [0.25, 0.9],
+  refine: [0.9, 1.0]
+};
+
+const post = (message: StereoResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const reportProgress = (id: number, stage: StereoStage, fraction: number) => {
+  const [start, end] = STAGE_RANGES[stage];
+  post({ type: 'progress', id, stage, progress: start + (end - start) * fraction });
+};
+
+// Decodes a data URL and returns its luminance at the given size
+const decodeGray = async (src: string, width: number, height: number): Promise<Float32Array> => {
+  const bitmap = await createImageBitmap(await (await fetch(src)).blob());
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get OffscreenCanvas context");
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return luminance(ctx.getImageData(0, 0, width, height).data, width * height);
+};
+
+self.onmessage = async (event: MessageEvent<StereoRequest>) => {
+  const request = event.data;
+  if (request.type !== 'stereo') return;
+  const { id } = request;
+
+  try {
+    reportProgress(id, 'decode', 0);
+    // Both views are matched on the left view's grid
+    const leftBitmap = await createImageBitmap(await (await fetch(request.leftSrc)).blob());
+    const { width, height } = fitDimensions(leftBitmap.width, leftBitmap.height, request.maxSize);
+    leftBitmap.close();
+    const [left, right] = await Promise.all([
+      decodeGray(request.leftSrc, width, height),
+      decodeGray(request.rightSrc, width, height)
+    ]);
+    reportProgress(id, 'decode', 1);
+
+    const result = estimateStereoDepth(left, right, width, height, request.options,
+      (stage, fraction) => reportProgress(id, stage, fraction));
+    post({ type: 'result', id, result }, [result.depth.data.buffer]);
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};